@@ -4,11 +4,71 @@ import * as path from 'path';
 import { spawn, ChildProcess } from 'child_process';
 import * as net from 'net';
 import * as http from 'http';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { ILogger } from './interfaces/module';
+import { getCoreLogger, log } from './logging/Logger';
+
+/**
+ * Завершение процесса Core
+ */
+export interface ICoreExitEvent {
+    code: number | null;
+    signal: NodeJS.Signals | null;
+    // Порт, на котором работал процесс
+    port: number | null;
+    // Процесс остановлен через stopCore или не дождался готовности, а не упал во время работы
+    expected: boolean;
+}
+
+/**
+ * Состояние Core: модуль не установлен, запускается, работает, не отвечает на проверку здоровья,
+ * останавливается или остановлен
+ */
+export type CoreState = 'notInstalled' | 'starting' | 'running' | 'unhealthy' | 'stopping' | 'stopped';
+
+/**
+ * Изменение состояния Core
+ */
+export interface ICoreStateChangeEvent {
+    state: CoreState;
+    // Порт Core (null, если Core не запущен)
+    port: number | null;
+}
+
+/**
+ * Параметры запуска Core
+ */
+export interface ICoreStartOptions {
+    // Отмена ожидания готовности; запущенный процесс при этом останавливается
+    token?: vscode.CancellationToken;
+    // Сообщения о ходе запуска
+    onProgress?: (message: string) => void;
+}
 
 /**
  * Класс для управления процессом Core (Always-IDE модель)
  */
 export class CoreManager {
+    // Строки stdout, которыми Core (ASP.NET Core) сообщает о готовности принимать запросы
+    private static readonly readyPattern = /Now listening on:|Application started\./;
+    // Ошибка привязки к занятому порту в stderr Core
+    private static readonly portInUsePattern = /address already in use|EADDRINUSE/i;
+    private static readonly healthPollInterval = 500;
+    // Сколько последних символов вывода Core хранится во время запуска
+    private static readonly maxStartupOutput = 4000;
+    // Уровни журнала для префиксов консольного журнала ASP.NET Core
+    private static readonly outputLevels: Record<string, keyof ILogger> = {
+        trce: 'trace',
+        dbug: 'debug',
+        info: 'info',
+        warn: 'warn',
+        fail: 'error',
+        crit: 'error'
+    };
+    // Сколько ждать выхода Core после SIGTERM перед SIGKILL
+    private static readonly terminateTimeout = 2000;
+
     // Путь к директории модулей (публичный для доступа из активации расширения)
     public readonly modulesPath: string;
     private orchestratorModulePath: string;
@@ -16,17 +76,33 @@ export class CoreManager {
     private corePort: number | null = null;
     // Процесс Core (не null, когда Core запущен)
     private coreProcess: ChildProcess | null = null;
+    // Выполняющаяся остановка Core
+    private stopping: Promise<void> | undefined;
+    private coreState: CoreState = 'stopped';
+    private readonly coreExitEmitter = new vscode.EventEmitter<ICoreExitEvent>();
+    private readonly coreStateEmitter = new vscode.EventEmitter<ICoreStateChangeEvent>();
+
+    /**
+     * Событие завершения процесса Core, запущенного этим экземпляром
+     */
+    public readonly onDidExitCore = this.coreExitEmitter.event;
+
+    /**
+     * Событие изменения состояния Core
+     */
+    public readonly onDidChangeCoreState = this.coreStateEmitter.event;
 
     constructor(private context: vscode.ExtensionContext) {
+        context.subscriptions.push(this.coreExitEmitter, this.coreStateEmitter);
         // Путь к папке с модулями с учетом IDE
         this.modulesPath = this.getModulesPath(context);
         // Путь к core-модулю только kb-core
         this.orchestratorModulePath = path.join(this.modulesPath, 'kb-core');
         // Путь к конфигурационному файлу MCP
         this.mcpConfigPath = this.getMcpConfigPath();
-        console.log(`CoreManager: Путь к модулям: ${this.modulesPath}`);
-        console.log(`CoreManager: Путь к модулю kb-core: ${this.orchestratorModulePath}`);
-        console.log(`CoreManager: IDE: ${vscode.env.appName}`);
+        log.info(`CoreManager: Путь к модулям: ${this.modulesPath}`);
+        log.info(`CoreManager: Путь к модулю kb-core: ${this.orchestratorModulePath}`);
+        log.info(`CoreManager: IDE: ${vscode.env.appName}`);
     }
 
     /**
@@ -37,11 +113,11 @@ export class CoreManager {
     private getModulesPath(context: vscode.ExtensionContext): string {
         // Получаем базовый путь расширения
         const extensionPath = context.extensionPath;
-        console.log(`CoreManager: Текущий путь расширения: ${extensionPath}`);
+        log.info(`CoreManager: Текущий путь расширения: ${extensionPath}`);
 
         // Определяем, какая IDE используется
         const appName = vscode.env.appName;
-        console.log(`CoreManager: Имя приложения: ${appName}`);
+        log.info(`CoreManager: Имя приложения: ${appName}`);
 
         // Используем USERPROFILE для получения домашней директории пользователя
         const userHome = process.env.USERPROFILE || process.env.HOME || '';
@@ -52,7 +128,7 @@ export class CoreManager {
         for (const part of extensionParts) {
             if (part.includes('modularkb.modularkb-extension-')) {
                 installedVersion = part.replace('modularkb.modularkb-extension-', '');
-                console.log(`CoreManager: Найдена версия в пути: ${installedVersion}`);
+                log.info(`CoreManager: Найдена версия в пути: ${installedVersion}`);
                 break;
             }
         }
@@ -63,30 +139,30 @@ export class CoreManager {
         if (appName.includes('Visual Studio Code')) {
             // Правильный путь для VS Code
             modulesPath = path.join(userHome, '.vscode', 'extensions', `modularkb.modularkb-extension-${installedVersion}`, 'modules');
-            console.log(`CoreManager: Определен путь к модулям VS Code: ${modulesPath}`);
+            log.info(`CoreManager: Определен путь к модулям VS Code: ${modulesPath}`);
         } else if (appName.includes('Code - Copilot')) {
             // Путь для VS Code Copilot
             modulesPath = path.join(userHome, '.vscode-copilot', 'extensions', `modularkb.modularkb-extension-${installedVersion}`, 'modules');
-            console.log(`CoreManager: Определен путь к модулям VS Code Copilot: ${modulesPath}`);
+            log.info(`CoreManager: Определен путь к модулям VS Code Copilot: ${modulesPath}`);
         } else if (appName.includes('Cursor')) {
             // Правильный путь для Cursor
             modulesPath = path.join(userHome, '.cursor', 'extensions', `modularkb.modularkb-extension-${installedVersion}`, 'modules');
-            console.log(`CoreManager: Определен путь к модулям Cursor: ${modulesPath}`);
+            log.info(`CoreManager: Определен путь к модулям Cursor: ${modulesPath}`);
         } else if (appName.includes('Windsurf')) {
             // Правильный путь для Windsurf
             modulesPath = path.join(userHome, '.windsurf', 'extensions', `modularkb.modularkb-extension-${installedVersion}`, 'modules');
-            console.log(`CoreManager: Определен путь к модулям Windsurf: ${modulesPath}`);
+            log.info(`CoreManager: Определен путь к модулям Windsurf: ${modulesPath}`);
         } else if (appName.includes('Trae')) {
             // Правильный путь для Trae
             modulesPath = path.join(userHome, '.trae', 'extensions', `modularkb.modularkb-extension-${installedVersion}`, 'modules');
-            console.log(`CoreManager: Определен путь к модулям Trae: ${modulesPath}`);
+            log.info(`CoreManager: Определен путь к модулям Trae: ${modulesPath}`);
         } else {
             // По умолчанию используем путь из контекста
             modulesPath = path.join(extensionPath, 'modules');
-            console.log(`CoreManager: Используется путь по умолчанию: ${modulesPath}`);
+            log.info(`CoreManager: Используется путь по умолчанию: ${modulesPath}`);
         }
 
-        console.log(`CoreManager: Итоговый путь к модулям: ${modulesPath}`);
+        log.info(`CoreManager: Итоговый путь к модулям: ${modulesPath}`);
 
         return modulesPath;
     }
@@ -98,10 +174,10 @@ export class CoreManager {
         try {
             await fs.access(this.modulesPath).catch(async () => {
                 await fs.mkdir(this.modulesPath, { recursive: true });
-                console.log(`CoreManager: Создана папка для модулей: ${this.modulesPath}`);
+                log.info(`CoreManager: Создана папка для модулей: ${this.modulesPath}`);
             });
         } catch (error) {
-            console.error('CoreManager: Ошибка при создании папки для модулей:', error);
+            log.error('CoreManager: Ошибка при создании папки для модулей:', error);
         }
     }
 
@@ -138,7 +214,7 @@ export class CoreManager {
             // Проверяем наличие конфигурационного файла MCP
             const mcpConfigExists = await this.fileExists(this.mcpConfigPath);
             if (!mcpConfigExists) {
-                console.log('CoreManager: MCP конфигурационный файл не существует');
+                log.info('CoreManager: MCP конфигурационный файл не существует');
                 return false;
             }
 
@@ -150,14 +226,14 @@ export class CoreManager {
                 server.name === 'KB Core' && server.type === 'http');
 
             if (!kbCoreServer) {
-                console.log('CoreManager: Сервер KB Core не найден в конфигурации MCP');
+                log.info('CoreManager: Сервер KB Core не найден в конфигурации MCP');
                 return false;
             }
 
             // Получаем URL сервера
             const serverUrl = kbCoreServer.url;
             if (!serverUrl) {
-                console.log('CoreManager: URL сервера KB Core не указан');
+                log.info('CoreManager: URL сервера KB Core не указан');
                 return false;
             }
 
@@ -166,22 +242,100 @@ export class CoreManager {
             if (match && match[1]) {
                 this.corePort = parseInt(match[1], 10);
             } else {
-                console.log('CoreManager: Не удалось извлечь порт из URL сервера');
+                log.info('CoreManager: Не удалось извлечь порт из URL сервера');
                 return false;
             }
 
             // Проверяем доступность сервера по эндпоинту /control/health
             const healthUrl = `${serverUrl.replace(/\/mcp$/, '')}/control/health`;
-            console.log(`CoreManager: Проверка доступности Core по URL: ${healthUrl}`);
+            log.info(`CoreManager: Проверка доступности Core по URL: ${healthUrl}`);
 
             const isAvailable = await this.checkHealth(healthUrl);
-            console.log(`CoreManager: Core ${isAvailable ? 'доступен' : 'недоступен'}`);
+            log.info(`CoreManager: Core ${isAvailable ? 'доступен' : 'недоступен'}`);
+            // Core, запущенный другим окном IDE, тоже считается работающим
+            if (isAvailable && !this.coreProcess && this.coreState !== 'running') {
+                this.setCoreState('running');
+            }
 
             return isAvailable;
         } catch (error) {
-            console.error('CoreManager: Ошибка при проверке доступности Core:', error);
+            log.error('CoreManager: Ошибка при проверке доступности Core:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Проверка, работает ли процесс Core, запущенный этим экземпляром. Только такой Core
+     * можно остановить или перезапустить; Core, запущенный другим окном IDE, принадлежит ему.
+     */
+    public isCoreProcessRunning(): boolean {
+        return this.coreProcess !== null;
+    }
+
+    /**
+     * Порт запущенного Core
+     * @returns Порт или null, если Core не запущен
+     */
+    public getCorePort(): number | null {
+        return this.corePort;
+    }
+
+    /**
+     * Текущее состояние Core
+     */
+    public getCoreState(): CoreState {
+        return this.coreState;
+    }
+
+    /**
+     * URL MCP-сервера запущенного Core
+     * @returns URL или null, если Core не запущен
+     */
+    public getMcpUrl(): string | null {
+        return this.corePort === null ? null : `http://127.0.0.1:${this.corePort}/mcp`;
+    }
+
+    /**
+     * Уточнение состояния остановленного Core: установлен ли модуль kb-core
+     */
+    public async refreshCoreState(): Promise<void> {
+        if (this.coreState !== 'stopped' && this.coreState !== 'notInstalled') {
+            return;
+        }
+        const installed = await this.isOrchestratorModuleInstalled();
+        if (this.coreState === 'stopped' || this.coreState === 'notInstalled') {
+            this.setCoreState(installed ? 'stopped' : 'notInstalled');
+        }
+    }
+
+    /**
+     * Проверка здоровья запущенного Core по эндпоинту /control/health.
+     * Результат переводит работающий Core в состояние running или unhealthy.
+     * @returns true, если Core отвечает, иначе false
+     */
+    public async checkCoreHealth(): Promise<boolean> {
+        if (this.corePort === null) {
             return false;
         }
+        const port = this.corePort;
+        const healthy = await this.checkHealth(`http://127.0.0.1:${port}/control/health`);
+        if (this.corePort === port && (this.coreState === 'running' || this.coreState === 'unhealthy')) {
+            this.setCoreState(healthy ? 'running' : 'unhealthy');
+        }
+        return healthy;
+    }
+
+    /**
+     * Смена состояния Core с уведомлением подписчиков
+     * @param state Новое состояние
+     */
+    private setCoreState(state: CoreState): void {
+        if (state === this.coreState) {
+            return;
+        }
+        log.info(`CoreManager: Состояние Core: ${this.coreState} -> ${state}`);
+        this.coreState = state;
+        this.coreStateEmitter.fire({ state, port: this.corePort });
     }
 
     /**
@@ -248,7 +402,7 @@ export class CoreManager {
             let moduleDir = this.orchestratorModulePath;
             let moduleExists = await this.fileExists(moduleDir);
             if (!moduleExists) {
-                console.log(`CoreManager: Директория модуля не найдена: ${this.orchestratorModulePath}`);
+                log.info(`CoreManager: Директория модуля не найдена: ${this.orchestratorModulePath}`);
                 return false;
             }
             // Проверяем наличие DLL в папке модуля
@@ -262,36 +416,50 @@ export class CoreManager {
             for (const dllPath of possibleDlls) {
                 if (await this.fileExists(dllPath)) {
                     dllExists = true;
-                    console.log(`CoreManager: Найден DLL: ${dllPath}`);
+                    log.info(`CoreManager: Найден DLL: ${dllPath}`);
                     break;
                 }
             }
             try {
                 const files = await fs.readdir(moduleDir);
-                console.log(`CoreManager: Содержимое директории модуля:`, files);
+                log.info(`CoreManager: Содержимое директории модуля:`, files);
             } catch (err) {
-                console.error(`CoreManager: Ошибка при чтении содержимого директории модуля:`, err);
+                log.error(`CoreManager: Ошибка при чтении содержимого директории модуля:`, err);
             }
             return dllExists;
         } catch (error) {
-            console.error('CoreManager: Ошибка при проверке наличия модуля kb-core:', error);
+            log.error('CoreManager: Ошибка при проверке наличия модуля kb-core:', error);
             return false;
         }
     }
 
     /**
-     * Запуск Core как дочернего процесса расширения (Always-IDE модель)
+     * Проверка, что порт на 127.0.0.1 не занят другим процессом
+     * @param port Порт для проверки
+     */
+    private async isPortFree(port: number): Promise<boolean> {
+        return new Promise<boolean>((resolve) => {
+            const server = net.createServer();
+            server.once('error', () => resolve(false));
+            server.listen(port, '127.0.0.1', () => server.close(() => resolve(true)));
+        });
+    }
+
+    /**
+     * Запуск Core как дочернего процесса расширения (Always-IDE модель).
+     * Завершается, когда Core сообщает о готовности в stdout или отвечает на /control/health.
      * @param port Порт для Core
-     * @returns true, если Core успешно запущен, иначе false
+     * @param options Отмена и сообщения о ходе запуска
+     * @throws Error с выводом stderr, если процесс завершился до готовности, порт занят
+     * или Core не стал готов за modularKb.core.startupTimeout
      */
-    public async startCore(port: number): Promise<boolean> {
+    public async startCore(port: number, options: ICoreStartOptions = {}): Promise<void> {
         try {
-            console.log(`CoreManager: Запуск kb-core на порту ${port}`);
+            log.info(`CoreManager: Запуск kb-core на порту ${port}`);
             const moduleInstalled = await this.isOrchestratorModuleInstalled();
             if (!moduleInstalled) {
-                console.error('CoreManager: Модуль kb-core не установлен');
-                vscode.window.showErrorMessage('kb-core module is not installed. Please install the kb-core module first using "Modular KB: Install Module" command.');
-                return false;
+                this.setCoreState('notInstalled');
+                throw new Error('kb-core module is not installed. Please install the kb-core module first using "Modular KB: Install Module" command.');
             }
             let dllPath = '';
             let moduleDir = this.orchestratorModulePath;
@@ -306,39 +474,208 @@ export class CoreManager {
                 if (await this.fileExists(possibleDll)) {
                     dllPath = possibleDll;
                     dllDir = path.dirname(possibleDll);
-                    console.log(`CoreManager: Найден DLL: ${dllPath}`);
+                    log.info(`CoreManager: Найден DLL: ${dllPath}`);
                     break;
                 }
             }
             if (!dllPath) {
-                console.error('CoreManager: Не найден DLL модуля kb-core');
-                vscode.window.showErrorMessage('Cannot find KB.Core.dll or KB.Orchestrator.dll in the kb-core module.');
-                return false;
+                throw new Error('Cannot find KB.Core.dll or KB.Orchestrator.dll in the kb-core module.');
+            }
+            this.setCoreState('starting');
+            if (!await this.isPortFree(port)) {
+                throw new Error(`Port ${port} is already in use.`);
             }
-            this.coreProcess = spawn('dotnet', [dllPath, "--port", port.toString()], {
+
+            options.onProgress?.('Starting the kb-core process...');
+            const coreProcess = spawn('dotnet', [dllPath, "--port", port.toString()], {
                 cwd: dllDir
             });
-            this.coreProcess.stdout?.on('data', (data) => {
-                console.log(`Core stdout: ${data}`);
-            });
-            this.coreProcess.stderr?.on('data', (data) => {
-                console.error(`Core stderr: ${data}`);
+            this.coreProcess = coreProcess;
+            this.logCoreOutput(coreProcess.stdout, 'info');
+            this.logCoreOutput(coreProcess.stderr, 'error');
+
+            let exited = false;
+            let starting = true;
+            const handleExit = (code: number | null, signal: NodeJS.Signals | null) => {
+                if (exited) {
+                    return;
+                }
+                exited = true;
+                // stopCore забывает процесс до его завершения, поэтому такое завершение ожидаемо.
+                // Завершение до готовности тоже не считается падением: ошибку получает вызвавший startCore.
+                const expected = this.coreProcess !== coreProcess || starting;
+                if (this.coreProcess === coreProcess) {
+                    this.coreProcess = null;
+                    this.corePort = null;
+                    if (!starting) {
+                        this.setCoreState('stopped');
+                    }
+                }
+                this.coreExitEmitter.fire({ code, signal, port, expected });
+            };
+            coreProcess.on('close', (code, signal) => {
+                log.info(`Core process exited with code ${code}`);
+                handleExit(code, signal);
             });
-            this.coreProcess.on('close', (code) => {
-                console.log(`Core process exited with code ${code}`);
-                this.coreProcess = null;
-                this.corePort = null;
+            coreProcess.on('error', (error) => {
+                log.error('CoreManager: Ошибка процесса kb-core:', error);
+                // Если процесс не удалось запустить, событие close может не наступить
+                if (coreProcess.pid === undefined) {
+                    handleExit(null, null);
+                }
             });
             this.corePort = port;
-            console.log(`CoreManager: kb-core запущен на порту ${port}`);
-            await new Promise(resolve => setTimeout(resolve, 2000));
-            return true;
+
+            options.onProgress?.(`Waiting for kb-core to become ready on port ${port}...`);
+            try {
+                await this.waitForCoreReady(coreProcess, port, options.token);
+            } finally {
+                starting = false;
+            }
+            // Если во время ожидания Core остановили (или запустили заново), сигнал готовности устарел
+            if (this.coreProcess !== coreProcess || this.stopping) {
+                throw new vscode.CancellationError();
+            }
+            log.info(`CoreManager: kb-core запущен и готов на порту ${port}`);
+            this.setCoreState('running');
         } catch (error) {
-            console.error('CoreManager: Ошибка при запуске kb-core:', error);
-            return false;
+            log.error('CoreManager: Ошибка при запуске kb-core:', error);
+            // Во время остановки через stopCore состояние меняет она
+            if (this.coreState === 'starting' && !this.stopping) {
+                this.setCoreState('stopped');
+            }
+            throw error;
         }
     }
 
+    /**
+     * Построчная запись вывода процесса Core в журнал "KB Core". Уровень строки берётся
+     * из префикса консольного журнала ASP.NET Core и действует до следующего префикса.
+     * @param stream stdout или stderr процесса
+     * @param defaultLevel Уровень строк до первого префикса
+     */
+    private logCoreOutput(stream: Readable | null, defaultLevel: 'info' | 'error'): void {
+        if (!stream) {
+            return;
+        }
+        const coreLog = getCoreLogger();
+        const decoder = new StringDecoder('utf8');
+        let level: keyof ILogger = defaultLevel;
+        let pending = '';
+        const writeLine = (line: string) => {
+            const prefix = /^(trce|dbug|info|warn|fail|crit): /.exec(line);
+            if (prefix) {
+                level = CoreManager.outputLevels[prefix[1]];
+            }
+            if (line.trim()) {
+                coreLog[level](line);
+            }
+        };
+
+        stream.on('data', (data: Buffer) => {
+            const lines = (pending + decoder.write(data)).split(/\r?\n/);
+            pending = lines.pop() ?? '';
+            lines.forEach(writeLine);
+        });
+        stream.on('end', () => {
+            writeLine(pending + decoder.end());
+            pending = '';
+        });
+    }
+
+    /**
+     * Ожидание готовности запущенного процесса Core. При ошибке, отмене или по таймауту процесс останавливается.
+     * @param coreProcess Процесс Core
+     * @param port Порт Core
+     * @param token Токен отмены
+     */
+    private waitForCoreReady(coreProcess: ChildProcess, port: number, token?: vscode.CancellationToken): Promise<void> {
+        const startupTimeout = vscode.workspace.getConfiguration('modularKb.core').get<number>('startupTimeout', 30000);
+        const healthUrl = `http://127.0.0.1:${port}/control/health`;
+
+        return new Promise<void>((resolve, reject) => {
+            let settled = false;
+            let stdout = '';
+            let stderr = '';
+            let pollTimer: NodeJS.Timeout | undefined;
+            let timeoutTimer: NodeJS.Timeout | undefined;
+            let cancellation: vscode.Disposable | undefined;
+
+            // Последний вывод stderr для сообщения об ошибке
+            const describeStderr = () => stderr.trim() ? `\n${stderr.trim()}` : '';
+
+            const finish = (error?: Error) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                clearTimeout(timeoutTimer);
+                clearTimeout(pollTimer);
+                cancellation?.dispose();
+                coreProcess.stdout?.off('data', onStdout);
+                coreProcess.stderr?.off('data', onStderr);
+                coreProcess.off('close', onClose);
+                coreProcess.off('error', onError);
+
+                if (!error) {
+                    resolve();
+                    return;
+                }
+                // Core ещё не готов принимать запрос на завершение, поэтому процесс завершается сигналом
+                if (this.coreProcess === coreProcess) {
+                    this.coreProcess = null;
+                    this.corePort = null;
+                    this.terminateProcess(coreProcess);
+                }
+                reject(error);
+            };
+
+            const onStdout = (data: Buffer) => {
+                // Строка готовности может прийти в нескольких фрагментах
+                stdout = (stdout + data.toString()).slice(-CoreManager.maxStartupOutput);
+                if (CoreManager.readyPattern.test(stdout)) {
+                    log.info('CoreManager: kb-core сообщил о готовности');
+                    finish();
+                }
+            };
+            const onStderr = (data: Buffer) => {
+                stderr = (stderr + data.toString()).slice(-CoreManager.maxStartupOutput);
+                if (CoreManager.portInUsePattern.test(stderr)) {
+                    finish(new Error(`Port ${port} is already in use.${describeStderr()}`));
+                }
+            };
+            const onClose = (code: number | null, signal: NodeJS.Signals | null) => {
+                finish(new Error(`kb-core exited (${signal ?? `code ${code}`}) before it became ready.${describeStderr()}`));
+            };
+            const onError = (error: Error) => {
+                finish(new Error(`Failed to run kb-core: ${error.message}`));
+            };
+
+            const pollHealth = async () => {
+                pollTimer = undefined;
+                if (settled) {
+                    return;
+                }
+                if (await this.checkHealth(healthUrl)) {
+                    log.info('CoreManager: kb-core отвечает на проверку здоровья');
+                    finish();
+                } else if (!settled) {
+                    pollTimer = setTimeout(pollHealth, CoreManager.healthPollInterval);
+                }
+            };
+
+            coreProcess.stdout?.on('data', onStdout);
+            coreProcess.stderr?.on('data', onStderr);
+            coreProcess.on('close', onClose);
+            coreProcess.on('error', onError);
+            pollTimer = setTimeout(pollHealth, CoreManager.healthPollInterval);
+            timeoutTimer = setTimeout(() => {
+                finish(new Error(`kb-core did not become ready within ${startupTimeout} ms.${describeStderr()}`));
+            }, startupTimeout);
+            cancellation = token?.onCancellationRequested(() => finish(new vscode.CancellationError()));
+        });
+    }
+
     /**
      * Регистрация MCP-сервера в конфигурации IDE
      * @param port Порт сервера
@@ -346,7 +683,7 @@ export class CoreManager {
      */
     public async registerMcpServer(port: number): Promise<boolean> {
         try {
-            console.log(`CoreManager: Регистрация MCP-сервера на порту ${port}`);
+            log.info(`CoreManager: Регистрация MCP-сервера на порту ${port}`);
 
             // Создаем директорию для конфигурационного файла, если она не существует
             await fs.mkdir(path.dirname(this.mcpConfigPath), { recursive: true });
@@ -363,7 +700,7 @@ export class CoreManager {
                         mcpConfig.servers = [];
                     }
                 } catch (e) {
-                    console.error('CoreManager: Ошибка при парсинге конфигурационного файла MCP:', e);
+                    log.error('CoreManager: Ошибка при парсинге конфигурационного файла MCP:', e);
                     mcpConfig = { servers: [] };
                 }
             }
@@ -381,11 +718,11 @@ export class CoreManager {
             // Записываем конфигурационный файл
             await fs.writeFile(this.mcpConfigPath, JSON.stringify(mcpConfig, null, 2));
 
-            console.log(`CoreManager: MCP-сервер успешно зарегистрирован на порту ${port}`);
+            log.info(`CoreManager: MCP-сервер успешно зарегистрирован на порту ${port}`);
 
             return true;
         } catch (error) {
-            console.error('CoreManager: Ошибка при регистрации MCP-сервера:', error);
+            log.error('CoreManager: Ошибка при регистрации MCP-сервера:', error);
             return false;
         }
     }
@@ -399,68 +736,174 @@ export class CoreManager {
             // Проверяем доступность Core
             const isAvailable = await this.isCoreAvailable();
             if (isAvailable) {
-                console.log('CoreManager: Core уже доступен');
+                log.info('CoreManager: Core уже доступен');
                 return true;
             }
 
             // Проверяем наличие модуля KB.Orchestrator
             const moduleInstalled = await this.isOrchestratorModuleInstalled();
             if (!moduleInstalled) {
-                console.error('CoreManager: Модуль KB.Orchestrator не установлен');
+                log.error('CoreManager: Модуль KB.Orchestrator не установлен');
                 vscode.window.showErrorMessage('KB Core module is not installed. Please install the KB.Orchestrator module first using "Modular KB: Install Module" command.');
                 return false;
             }
 
             // Находим свободный порт
             const port = await this.findFreePort();
-            console.log(`CoreManager: Найден свободный порт: ${port}`);
+            log.info(`CoreManager: Найден свободный порт: ${port}`);
 
-            // Запускаем Core
-            const isStarted = await this.startCore(port);
-            if (!isStarted) {
-                console.error('CoreManager: Не удалось запустить Core');
-                return false;
-            }
+            // Запускаем Core и ждём его готовности
+            await this.startCore(port);
 
             // Регистрируем MCP-сервер
             const isRegistered = await this.registerMcpServer(port);
             if (!isRegistered) {
-                console.error('CoreManager: Не удалось зарегистрировать MCP-сервер');
+                log.error('CoreManager: Не удалось зарегистрировать MCP-сервер');
                 return false;
             }
 
-            // Проверяем доступность Core после запуска
-            const healthUrl = `http://127.0.0.1:${port}/control/health`;
+            log.info('CoreManager: Core успешно запущен и доступен');
+            return true;
+        } catch (error) {
+            log.error('CoreManager: Ошибка при обеспечении доступности Core:', error);
+            return false;
+        }
+    }
 
-            // Пробуем несколько раз с интервалом
-            for (let i = 0; i < 5; i++) {
-                const isHealthy = await this.checkHealth(healthUrl);
-                if (isHealthy) {
-                    console.log('CoreManager: Core успешно запущен и доступен');
-                    return true;
-                }
+    /**
+     * Удаление MCP-сервера KB Core из конфигурации IDE, чтобы клиенты MCP не обращались к остановленному Core
+     * @param port Порт остановленного Core: удаляется только запись, указывающая на него
+     * @returns true, если конфигурация обновлена или записи не было, иначе false
+     */
+    public async unregisterMcpServer(port: number): Promise<boolean> {
+        try {
+            if (!await this.fileExists(this.mcpConfigPath)) {
+                return true;
+            }
 
-                // Ждем перед следующей попыткой
-                await new Promise(resolve => setTimeout(resolve, 1000));
+            const mcpConfig = JSON.parse(await fs.readFile(this.mcpConfigPath, 'utf-8'));
+            const servers: any[] = Array.isArray(mcpConfig.servers) ? mcpConfig.servers : [];
+            const url = `http://127.0.0.1:${port}/mcp`;
+            const remaining = servers.filter((server: any) => !(server.name === 'KB Core' && server.url === url));
+            if (remaining.length === servers.length) {
+                return true;
             }
 
-            console.error('CoreManager: Core запущен, но не отвечает на проверку здоровья');
-            return false;
+            mcpConfig.servers = remaining;
+            await fs.writeFile(this.mcpConfigPath, JSON.stringify(mcpConfig, null, 2));
+            log.info(`CoreManager: MCP-сервер на порту ${port} удалён из конфигурации`);
+            return true;
         } catch (error) {
-            console.error('CoreManager: Ошибка при обеспечении доступности Core:', error);
+            log.error('CoreManager: Ошибка при удалении MCP-сервера:', error);
             return false;
         }
     }
 
     /**
-     * Останавливает процесс Core
+     * Остановка процесса Core: запрос на штатное завершение через /control/shutdown,
+     * ожидание выхода в течение modularKb.core.shutdownTimeout, затем SIGTERM и SIGKILL.
+     * После остановки MCP-сервер удаляется из конфигурации IDE.
      */
-    public stopCore(): void {
-        if (this.coreProcess) {
-            console.log('CoreManager: Останавливаем Core процесс');
-            this.coreProcess.kill();
-            this.coreProcess = null;
-            this.corePort = null;
+    public stopCore(): Promise<void> {
+        if (!this.coreProcess || this.corePort === null) {
+            // Повторный вызов во время остановки ждёт её завершения
+            return this.stopping ?? Promise.resolve();
+        }
+
+        const coreProcess = this.coreProcess;
+        const port = this.corePort;
+        // Процесс забывается сразу, поэтому его завершение не считается падением
+        this.coreProcess = null;
+        this.corePort = null;
+        this.setCoreState('stopping');
+
+        this.stopping = (async () => {
+            log.info(`CoreManager: Останавливаем Core процесс на порту ${port}`);
+            const shutdownTimeout = vscode.workspace.getConfiguration('modularKb.core').get<number>('shutdownTimeout', 3000);
+            if (shutdownTimeout > 0 && await this.requestShutdown(port)) {
+                if (await this.waitForExit(coreProcess, shutdownTimeout)) {
+                    log.info('CoreManager: Core завершился штатно');
+                } else {
+                    log.warn(`CoreManager: Core не завершился за ${shutdownTimeout} мс после запроса на завершение`);
+                }
+            }
+            await this.terminateProcess(coreProcess);
+            await this.unregisterMcpServer(port);
+        })().finally(() => {
+            this.stopping = undefined;
+            this.setCoreState('stopped');
+        });
+        return this.stopping;
+    }
+
+    /**
+     * Запрос на штатное завершение Core: Core завершает текущую работу и выходит сам
+     * @param port Порт Core
+     * @returns true, если Core принял запрос, иначе false
+     */
+    private requestShutdown(port: number): Promise<boolean> {
+        return new Promise<boolean>((resolve) => {
+            const request = http.request(`http://127.0.0.1:${port}/control/shutdown`, { method: 'POST', timeout: 2000 }, (response) => {
+                response.resume();
+                resolve(response.statusCode !== undefined && response.statusCode >= 200 && response.statusCode < 300);
+            });
+
+            request.on('error', () => {
+                resolve(false);
+            });
+
+            request.on('timeout', () => {
+                request.destroy();
+                resolve(false);
+            });
+
+            request.end();
+        });
+    }
+
+    /**
+     * Проверка, что процесс уже завершился или не был запущен
+     * @param childProcess Процесс
+     */
+    private hasExited(childProcess: ChildProcess): boolean {
+        return childProcess.exitCode !== null || childProcess.signalCode !== null || childProcess.pid === undefined;
+    }
+
+    /**
+     * Ожидание завершения процесса
+     * @param childProcess Процесс
+     * @param timeout Время ожидания в миллисекундах
+     * @returns true, если процесс завершился, иначе false
+     */
+    private waitForExit(childProcess: ChildProcess, timeout: number): Promise<boolean> {
+        if (this.hasExited(childProcess)) {
+            return Promise.resolve(true);
+        }
+        return new Promise<boolean>((resolve) => {
+            const onExit = () => {
+                clearTimeout(timer);
+                resolve(true);
+            };
+            const timer = setTimeout(() => {
+                childProcess.off('exit', onExit);
+                resolve(false);
+            }, timeout);
+            childProcess.once('exit', onExit);
+        });
+    }
+
+    /**
+     * Завершение процесса сигналами: SIGTERM, а если процесс не вышел, SIGKILL
+     * @param childProcess Процесс
+     */
+    private async terminateProcess(childProcess: ChildProcess): Promise<void> {
+        if (this.hasExited(childProcess)) {
+            return;
+        }
+        childProcess.kill('SIGTERM');
+        if (!await this.waitForExit(childProcess, CoreManager.terminateTimeout)) {
+            log.warn(`CoreManager: Core не завершился за ${CoreManager.terminateTimeout} мс после SIGTERM, отправляется SIGKILL`);
+            childProcess.kill('SIGKILL');
         }
     }
 }
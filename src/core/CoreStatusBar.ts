@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { CoreManager, CoreState } from './CoreManager';
+import { IModuleRegistry } from './interfaces/module';
+import { log, showLog } from './logging/Logger';
+
+/**
+ * Элемент строки состояния с состоянием Core; по щелчку открывает меню управления Core
+ */
+export class CoreStatusBar implements vscode.Disposable {
+    /**
+     * Команда меню, которую вызывает элемент строки состояния
+     */
+    public static readonly menuCommand = 'kb.showCoreMenu';
+
+    private readonly item: vscode.StatusBarItem;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param coreManager Менеджер процесса Core
+     * @param moduleRegistry Реестр модулей: установка и удаление kb-core меняют состояние "не установлен"
+     */
+    constructor(private coreManager: CoreManager, moduleRegistry: IModuleRegistry) {
+        this.item = vscode.window.createStatusBarItem('modularKb.coreStatus', vscode.StatusBarAlignment.Left, 100);
+        this.item.name = 'KB Core';
+        this.item.command = CoreStatusBar.menuCommand;
+
+        this.disposables.push(
+            this.item,
+            vscode.commands.registerCommand(CoreStatusBar.menuCommand, () => this.showMenu()),
+            coreManager.onDidChangeCoreState(() => this.update()),
+            moduleRegistry.onDidChangeModuleState(event => {
+                if (event.id === 'kb-core') {
+                    coreManager.refreshCoreState();
+                }
+            })
+        );
+    }
+
+    /**
+     * Показ элемента и определение начального состояния
+     */
+    public start(): void {
+        this.update();
+        this.item.show();
+        this.coreManager.refreshCoreState();
+    }
+
+    public dispose(): void {
+        for (const disposable of this.disposables.splice(0)) {
+            disposable.dispose();
+        }
+    }
+
+    /**
+     * Обновление текста, подсказки и цвета элемента по состоянию Core
+     */
+    private update(): void {
+        const state = this.coreManager.getCoreState();
+        const port = this.coreManager.getCorePort();
+        const [icon, tooltip] = this.describe(state, port, this.isExternal(state));
+        this.item.text = `${icon} KB Core${port !== null && (state === 'running' || state === 'unhealthy') ? ` :${port}` : ''}`;
+        this.item.tooltip = `${tooltip}\nClick to manage KB Core`;
+        this.item.backgroundColor = state === 'unhealthy'
+            ? new vscode.ThemeColor('statusBarItem.warningBackground')
+            : undefined;
+    }
+
+    /**
+     * Core работает, но запущен другим окном IDE: остановить или перезапустить его можно только там
+     * @param state Состояние Core
+     */
+    private isExternal(state: CoreState): boolean {
+        return (state === 'running' || state === 'unhealthy') && !this.coreManager.isCoreProcessRunning();
+    }
+
+    /**
+     * Значок и описание состояния Core
+     * @param state Состояние Core
+     * @param port Порт Core
+     * @param external Core запущен другим окном IDE
+     */
+    private describe(state: CoreState, port: number | null, external: boolean): [string, string] {
+        const owner = external ? ' (started by another window)' : '';
+        switch (state) {
+            case 'notInstalled':
+                return ['$(circle-slash)', 'KB Core module is not installed'];
+            case 'starting':
+                return ['$(sync~spin)', 'KB Core is starting...'];
+            case 'running':
+                return ['$(check)', `KB Core is running on port ${port}${owner}`];
+            case 'unhealthy':
+                return ['$(warning)', `KB Core on port ${port}${owner} is not responding to health checks`];
+            case 'stopping':
+                return ['$(sync~spin)', 'KB Core is stopping...'];
+            case 'stopped':
+                return ['$(circle-outline)', 'KB Core is stopped'];
+        }
+    }
+
+    /**
+     * Меню управления Core: пункты зависят от текущего состояния
+     */
+    private async showMenu(): Promise<void> {
+        const state = this.coreManager.getCoreState();
+        const external = this.isExternal(state);
+        const mcpUrl = this.coreManager.getMcpUrl();
+        const items: (vscode.QuickPickItem & { run: () => unknown })[] = [];
+
+        if (state === 'notInstalled') {
+            items.push({
+                label: '$(cloud-download) Install kb-core Module',
+                run: () => vscode.commands.executeCommand('modular-kb-vscode.installModuleFromRegistry')
+            });
+        }
+        if (state === 'stopped') {
+            items.push({ label: '$(play) Start Core', run: () => vscode.commands.executeCommand('kb.startCore') });
+        }
+        // Core другого окна IDE останавливается и перезапускается только им
+        if ((state === 'running' || state === 'unhealthy') && !external) {
+            items.push(
+                { label: '$(debug-restart) Restart Core', run: () => vscode.commands.executeCommand('kb.restartCore') },
+                { label: '$(debug-stop) Stop Core', run: () => vscode.commands.executeCommand('kb.stopCore') }
+            );
+        }
+        items.push({ label: '$(output) Open Core Log', run: () => showLog('core') });
+        items.push({ label: '$(output) Open Extension Log', run: () => showLog() });
+        if (mcpUrl && (state === 'running' || state === 'unhealthy')) {
+            items.push({
+                label: '$(copy) Copy MCP URL',
+                description: mcpUrl,
+                run: async () => {
+                    await vscode.env.clipboard.writeText(mcpUrl);
+                    vscode.window.showInformationMessage(`MCP URL copied: ${mcpUrl}`);
+                }
+            });
+        }
+
+        const [, tooltip] = this.describe(state, this.coreManager.getCorePort(), external);
+        const selected = await vscode.window.showQuickPick(items, { placeHolder: tooltip });
+        if (!selected) {
+            return;
+        }
+        try {
+            await selected.run();
+        } catch (error) {
+            log.error('CoreStatusBar: Ошибка при выполнении действия меню Core:', error);
+        }
+    }
+}
@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import { CoreManager, ICoreExitEvent } from './CoreManager';
+import { log } from './logging/Logger';
+
+/**
+ * Наблюдение за процессом Core: при падении или зависании Core перезапускается
+ * с экспоненциальной задержкой, а MCP-сервер регистрируется на новом порту.
+ * Если Core падает слишком часто, перезапуски прекращаются и пользователь получает уведомление.
+ */
+export class CoreSupervisor implements vscode.Disposable {
+    private static readonly healthCheckInterval = 30000;
+    // Число неудачных проверок здоровья подряд, после которого Core считается зависшим
+    private static readonly maxHealthFailures = 3;
+    private static readonly initialBackoff = 1000;
+    private static readonly maxBackoff = 60000;
+    // Падения учитываются за это окно: при более редких падениях задержка и счётчик сбрасываются
+    private static readonly crashWindow = 10 * 60 * 1000;
+
+    private exitSubscription: vscode.Disposable | undefined;
+    private healthTimer: NodeJS.Timeout | undefined;
+    private restartTimer: NodeJS.Timeout | undefined;
+    // Время падений Core в пределах окна crashWindow
+    private crashTimes: number[] = [];
+    private healthFailures = 0;
+    private checkingHealth = false;
+    private restarting = false;
+
+    /**
+     * @param coreManager Менеджер процесса Core
+     * @param maxRestarts Максимальное число перезапусков за окно crashWindow
+     */
+    constructor(private coreManager: CoreManager, private maxRestarts: number) {
+    }
+
+    /**
+     * Запуск наблюдения за процессом и периодической проверки здоровья
+     */
+    public start(): void {
+        log.info(`CoreSupervisor: Наблюдение за Core, не более ${this.maxRestarts} перезапусков за ${CoreSupervisor.crashWindow / 60000} мин`);
+        this.exitSubscription = this.coreManager.onDidExitCore(event => this.handleExit(event));
+        this.healthTimer = setInterval(() => this.checkHealth(), CoreSupervisor.healthCheckInterval);
+    }
+
+    /**
+     * Остановка наблюдения
+     */
+    public dispose(): void {
+        this.exitSubscription?.dispose();
+        this.exitSubscription = undefined;
+        if (this.healthTimer) {
+            clearInterval(this.healthTimer);
+            this.healthTimer = undefined;
+        }
+        if (this.restartTimer) {
+            clearTimeout(this.restartTimer);
+            this.restartTimer = undefined;
+        }
+    }
+
+    /**
+     * Сброс истории падений, например после запуска Core пользователем
+     */
+    public reset(): void {
+        this.crashTimes = [];
+        this.healthFailures = 0;
+        if (this.restartTimer) {
+            clearTimeout(this.restartTimer);
+            this.restartTimer = undefined;
+        }
+    }
+
+    /**
+     * Реакция на завершение процесса Core; остановка через stopCore не считается падением
+     * @param event Событие завершения процесса
+     */
+    private handleExit(event: ICoreExitEvent): void {
+        if (event.expected || this.restarting) {
+            return;
+        }
+        this.scheduleRestart(`процесс Core на порту ${event.port} завершился (${event.signal ?? `код ${event.code}`})`, event.port ?? undefined);
+    }
+
+    /**
+     * Проверка здоровья работающего Core; после нескольких неудач подряд Core перезапускается
+     */
+    private async checkHealth(): Promise<void> {
+        if (this.checkingHealth || this.restarting || this.restartTimer || !this.coreManager.isCoreProcessRunning()) {
+            return;
+        }
+
+        this.checkingHealth = true;
+        try {
+            if (await this.coreManager.checkCoreHealth()) {
+                this.healthFailures = 0;
+                return;
+            }
+
+            this.healthFailures++;
+            log.warn(`CoreSupervisor: Core не ответил на проверку здоровья (${this.healthFailures}/${CoreSupervisor.maxHealthFailures})`);
+            if (this.healthFailures >= CoreSupervisor.maxHealthFailures && this.coreManager.isCoreProcessRunning()) {
+                this.healthFailures = 0;
+                await this.coreManager.stopCore();
+                this.scheduleRestart('Core не отвечает на проверку здоровья');
+            }
+        } finally {
+            this.checkingHealth = false;
+        }
+    }
+
+    /**
+     * Планирование перезапуска с экспоненциальной задержкой или отказ от перезапуска при падениях в цикле
+     * @param reason Причина перезапуска
+     * @param port Порт упавшего Core, если его MCP-сервер может оставаться в конфигурации IDE
+     */
+    private scheduleRestart(reason: string, port?: number): void {
+        if (this.restartTimer) {
+            return;
+        }
+
+        const now = Date.now();
+        this.crashTimes = this.crashTimes.filter(time => now - time < CoreSupervisor.crashWindow);
+        this.crashTimes.push(now);
+        if (this.crashTimes.length > this.maxRestarts) {
+            log.error(`CoreSupervisor: ${reason}; Core упал ${this.crashTimes.length} раз подряд, автоматический перезапуск остановлен`);
+            this.giveUp(reason, port);
+            return;
+        }
+
+        const backoff = Math.min(CoreSupervisor.initialBackoff * 2 ** (this.crashTimes.length - 1), CoreSupervisor.maxBackoff);
+        log.warn(`CoreSupervisor: ${reason}; перезапуск через ${backoff} мс (${this.crashTimes.length}/${this.maxRestarts})`);
+        this.restartTimer = setTimeout(() => {
+            this.restartTimer = undefined;
+            this.restart();
+        }, backoff);
+    }
+
+    /**
+     * Перезапуск Core на свободном порту и регистрация MCP-сервера на нём
+     */
+    private async restart(): Promise<void> {
+        let failure: string | undefined;
+        let port: number | undefined;
+        this.restarting = true;
+        try {
+            port = await this.coreManager.findFreePort();
+            await this.coreManager.startCore(port);
+            if (!await this.coreManager.registerMcpServer(port)) {
+                failure = `не удалось зарегистрировать MCP-сервер на порту ${port}`;
+            } else {
+                log.info(`CoreSupervisor: Core перезапущен на порту ${port}`);
+            }
+        } catch (error) {
+            failure = error instanceof Error ? error.message : String(error);
+        } finally {
+            this.restarting = false;
+        }
+
+        if (failure) {
+            this.scheduleRestart(failure, port);
+        }
+    }
+
+    /**
+     * Отказ от перезапусков: Core, который больше не будет перезапущен, убирается из конфигурации MCP,
+     * чтобы клиенты не обращались к нему, затем пользователь получает уведомление
+     * @param reason Причина последнего падения
+     * @param port Порт упавшего Core
+     */
+    private async giveUp(reason: string, port?: number): Promise<void> {
+        if (this.coreManager.isCoreProcessRunning()) {
+            // Процесс запущен, но MCP-сервер не зарегистрировался: stopCore удалит и запись в конфигурации
+            await this.coreManager.stopCore();
+        } else if (port !== undefined) {
+            await this.coreManager.unregisterMcpServer(port);
+        }
+        this.notifyGaveUp(reason);
+    }
+
+    /**
+     * Уведомление о прекращении перезапусков с возможностью запустить Core вручную
+     * @param reason Причина последнего падения
+     */
+    private notifyGaveUp(reason: string): void {
+        vscode.window.showErrorMessage(
+            `KB Core crashed ${this.crashTimes.length} times in ${CoreSupervisor.crashWindow / 60000} minutes and will not be restarted automatically. Last error: ${reason}`,
+            'Start Core'
+        ).then(action => {
+            if (action === 'Start Core') {
+                vscode.commands.executeCommand('kb.startCore');
+            }
+        });
+    }
+}
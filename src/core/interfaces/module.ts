@@ -5,8 +5,14 @@ import * as vscode from 'vscode';
  */
 export interface IModuleRegistry {
     registerModule(module: IModule): Promise<void>;
+    unregisterModule(id: string): Promise<void>;
     getModule<T extends IModule>(id: string): T | undefined;
     listModules(): IModuleMetadata[];
+    getModuleStatus(id: string): IModuleStatus | undefined;
+    /**
+     * Событие изменения состояния жизненного цикла модуля
+     */
+    readonly onDidChangeModuleState: vscode.Event<IModuleStateChangeEvent>;
 }
 
 /**
@@ -33,12 +39,17 @@ export interface IModule {
      */
     description: string;
     
+    /**
+     * ID модулей, которые должны быть загружены и активированы раньше этого модуля
+     */
+    dependencies?: string[];
+    
     /**
      * Инициализация модуля
-     * @param context Контекст расширения VS Code
+     * @param context Контекст модуля (ресурсы из context.subscriptions освобождаются при деактивации)
      * @param registry Реестр модулей для взаимодействия с другими модулями
      */
-    initialize(context: vscode.ExtensionContext, registry: IModuleRegistry): Promise<void>;
+    initialize(context: IModuleContext, registry: IModuleRegistry): Promise<void>;
     
     /**
      * Активация модуля
@@ -51,6 +62,63 @@ export interface IModule {
     deactivate(): Promise<void>;
 }
 
+/**
+ * Журнал с уровнями сообщений. Дополнительные аргументы выводятся как в console.log.
+ */
+export interface ILogger {
+    trace(message: string, ...args: unknown[]): void;
+    debug(message: string, ...args: unknown[]): void;
+    info(message: string, ...args: unknown[]): void;
+    warn(message: string, ...args: unknown[]): void;
+    error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * Контекст, который реестр передаёт модулю вместо контекста расширения
+ */
+export interface IModuleContext {
+    /**
+     * ID модуля, которому принадлежит контекст
+     */
+    readonly moduleId: string;
+
+    /**
+     * Директория модуля (отсутствует у модулей, зарегистрированных из кода)
+     */
+    readonly modulePath: string | undefined;
+
+    /**
+     * Ресурсы модуля (команды, наблюдатели, элементы строки состояния, подписки на события).
+     * Освобождаются при деактивации модуля, поэтому регистрировать их следует в activate.
+     */
+    readonly subscriptions: vscode.Disposable[];
+
+    /**
+     * Глобальное состояние модуля (ключи изолированы от других модулей)
+     */
+    readonly globalState: vscode.Memento;
+
+    /**
+     * Состояние модуля в текущей рабочей области
+     */
+    readonly workspaceState: vscode.Memento;
+
+    /**
+     * Путь к установленному расширению Modular KB
+     */
+    readonly extensionPath: string;
+
+    /**
+     * Директория для данных модуля (может ещё не существовать)
+     */
+    readonly globalStoragePath: string;
+
+    /**
+     * Журнал модуля: отдельный канал вывода "Modular KB: <ID модуля>" и файл в директории журналов расширения
+     */
+    readonly logger: ILogger;
+}
+
 /**
  * Метаданные модуля
  */
@@ -60,4 +128,65 @@ export interface IModuleMetadata {
     displayName: string;
     description: string;
     dependencies?: string[];
+    /**
+     * Включён ли модуль (отключённые модули не загружаются при запуске)
+     */
+    enabled: boolean;
+    /**
+     * Состояние жизненного цикла (отсутствует у отключённых модулей)
+     */
+    state?: ModuleLifecycleState;
+    failedPhase?: IModuleStatus['failedPhase'];
+    lastError?: string;
+    stateChangedAt?: number;
+    activatedAt?: number;
+    activationDurationMs?: number;
+}
+
+/**
+ * Состояние жизненного цикла модуля
+ */
+export type ModuleLifecycleState =
+    | 'initializing'
+    | 'initialized'
+    | 'activating'
+    | 'active'
+    | 'deactivating'
+    | 'deactivated'
+    | 'failed';
+
+/**
+ * Текущее состояние модуля в реестре
+ */
+export interface IModuleStatus {
+    state: ModuleLifecycleState;
+    /**
+     * Этап, на котором произошла ошибка (для состояния failed)
+     */
+    failedPhase?: 'initialize' | 'activate' | 'deactivate';
+    /**
+     * Сообщение последней ошибки модуля
+     */
+    lastError?: string;
+    /**
+     * Время последнего изменения состояния (мс с начала эпохи)
+     */
+    stateChangedAt: number;
+    /**
+     * Время последней успешной активации (мс с начала эпохи)
+     */
+    activatedAt?: number;
+    /**
+     * Длительность последней попытки активации в миллисекундах
+     */
+    activationDurationMs?: number;
+}
+
+/**
+ * Событие изменения состояния модуля
+ */
+export interface IModuleStateChangeEvent {
+    id: string;
+    previousState?: ModuleLifecycleState;
+    status: IModuleStatus;
 }
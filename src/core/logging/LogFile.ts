@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as util from 'util';
+
+/**
+ * Уровни журнала в порядке возрастания важности; off отключает запись
+ */
+export const LOG_LEVELS = ['trace', 'debug', 'info', 'warn', 'error', 'off'] as const;
+
+export type LogLevelName = typeof LOG_LEVELS[number];
+
+/**
+ * Проверка, что сообщение уровня level записывается при настроенном уровне threshold
+ * @param threshold Настроенный уровень журнала
+ * @param level Уровень сообщения
+ */
+export function isLogLevelEnabled(threshold: LogLevelName, level: Exclude<LogLevelName, 'off'>): boolean {
+    return threshold !== 'off' && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Текст сообщения журнала: дополнительные аргументы добавляются как в console.log,
+ * у ошибок выводится стек
+ * @param message Сообщение
+ * @param args Дополнительные аргументы
+ */
+export function formatLogMessage(message: string, args: unknown[]): string {
+    if (args.length === 0) {
+        return message;
+    }
+    const formatted = args.map(arg => arg instanceof Error
+        ? arg.stack ?? `${arg.name}: ${arg.message}`
+        : typeof arg === 'string' ? arg : util.inspect(arg, { depth: 4, breakLength: Infinity }));
+    return [message, ...formatted].join(' ');
+}
+
+/**
+ * Файл журнала с ротацией по размеру: при превышении maxSize файл переименовывается
+ * в <имя>.1, предыдущие архивы сдвигаются, а самый старый удаляется
+ */
+export class RotatingLogFile {
+    // Текущий размер файла; определяется при первой записи
+    private size: number | undefined;
+
+    /**
+     * @param filePath Путь к файлу журнала
+     * @param maxSize Максимальный размер файла в байтах
+     * @param maxFiles Сколько архивных файлов хранить
+     */
+    constructor(
+        public readonly filePath: string,
+        private maxSize: number,
+        private maxFiles: number
+    ) {
+    }
+
+    /**
+     * Изменение ограничений; применяется со следующей записи
+     * @param maxSize Максимальный размер файла в байтах
+     * @param maxFiles Сколько архивных файлов хранить
+     */
+    public configure(maxSize: number, maxFiles: number): void {
+        this.maxSize = maxSize;
+        this.maxFiles = maxFiles;
+    }
+
+    /**
+     * Запись строки в журнал. Ошибки записи не пробрасываются: журнал не должен ломать работу расширения.
+     * @param line Строка без завершающего перевода строки
+     */
+    public append(line: string): void {
+        const text = `${line}\n`;
+        const bytes = Buffer.byteLength(text);
+        try {
+            if (this.size === undefined) {
+                fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+                this.size = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0;
+            }
+            if (this.size > 0 && this.size + bytes > this.maxSize) {
+                this.rotate();
+                this.size = 0;
+            }
+            fs.appendFileSync(this.filePath, text);
+            this.size += bytes;
+        } catch (error) {
+            console.error(`RotatingLogFile: Ошибка записи в журнал ${this.filePath}:`, error);
+            this.size = undefined;
+        }
+    }
+
+    /**
+     * Сдвиг архивов: <имя>.(N-1) -> <имя>.N, ..., <имя> -> <имя>.1
+     */
+    private rotate(): void {
+        fs.rmSync(`${this.filePath}.${this.maxFiles}`, { force: true });
+        for (let index = this.maxFiles - 1; index >= 1; index--) {
+            const archive = `${this.filePath}.${index}`;
+            if (fs.existsSync(archive)) {
+                fs.renameSync(archive, `${this.filePath}.${index + 1}`);
+            }
+        }
+        if (this.maxFiles > 0) {
+            fs.renameSync(this.filePath, `${this.filePath}.1`);
+        } else {
+            fs.rmSync(this.filePath, { force: true });
+        }
+    }
+}
@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ILogger } from '../interfaces/module';
+import { formatLogMessage, isLogLevelEnabled, LogLevelName, RotatingLogFile } from './LogFile';
+import { ILogProvider, setLogProvider } from './Logger';
+
+type MessageLevel = Exclude<LogLevelName, 'off'>;
+
+/**
+ * Уровни журнала по значениям vscode.LogLevel (Off, Trace, Debug, Info, Warning, Error)
+ */
+const channelLevels: LogLevelName[] = ['off', 'trace', 'debug', 'info', 'warn', 'error'];
+
+/**
+ * Журнал, который пишет в канал вывода VS Code и в файл с ротацией. Уровень задаёт сам канал
+ * (меню канала в панели вывода или команда "Developer: Set Log Level..."), в файл попадают
+ * те же сообщения, что и в канал.
+ */
+class ChannelLogger implements ILogger {
+    constructor(
+        public readonly channel: vscode.LogOutputChannel,
+        public readonly file: RotatingLogFile
+    ) {
+    }
+
+    public trace(message: string, ...args: unknown[]): void {
+        this.write('trace', message, args);
+    }
+
+    public debug(message: string, ...args: unknown[]): void {
+        this.write('debug', message, args);
+    }
+
+    public info(message: string, ...args: unknown[]): void {
+        this.write('info', message, args);
+    }
+
+    public warn(message: string, ...args: unknown[]): void {
+        this.write('warn', message, args);
+    }
+
+    public error(message: string, ...args: unknown[]): void {
+        this.write('error', message, args);
+    }
+
+    private write(level: MessageLevel, message: string, args: unknown[]): void {
+        const channelLevel = channelLevels[this.channel.logLevel] ?? 'info';
+        if (!isLogLevelEnabled(channelLevel, level)) {
+            return;
+        }
+        const text = formatLogMessage(message, args);
+        this.channel[level](text);
+        this.file.append(`${new Date().toISOString()} [${level}] ${text}`);
+    }
+}
+
+/**
+ * Журналы расширения: канал "Modular KB" для расширения, "KB Core" для вывода процесса Core
+ * и "Modular KB: <ID>" для каждого модуля. Каналы создаются при первом обращении,
+ * файлы журналов хранятся в директории журналов расширения (ExtensionContext.logUri).
+ */
+export class LogManager implements ILogProvider, vscode.Disposable {
+    private readonly loggers = new Map<string, ChannelLogger>();
+    private maxFileSize = 0;
+    private maxFiles = 0;
+
+    /**
+     * @param logDir Директория файлов журналов
+     */
+    constructor(public readonly logDir: string) {
+        this.updateConfiguration();
+    }
+
+    /**
+     * Чтение настроек modularKb.logging; ограничения файлов применяются и к уже открытым журналам
+     */
+    public updateConfiguration(): void {
+        const config = vscode.workspace.getConfiguration('modularKb.logging');
+        this.maxFileSize = config.get<number>('maxFileSizeKB', 1024) * 1024;
+        this.maxFiles = config.get<number>('maxFiles', 3);
+        for (const logger of this.loggers.values()) {
+            logger.file.configure(this.maxFileSize, this.maxFiles);
+        }
+    }
+
+    /**
+     * Журнал расширения
+     */
+    public get extension(): ILogger {
+        return this.getLogger('extension', 'Modular KB');
+    }
+
+    /**
+     * Журнал вывода процесса Core
+     */
+    public get core(): ILogger {
+        return this.getLogger('core', 'KB Core');
+    }
+
+    /**
+     * Журнал модуля
+     * @param moduleId ID модуля
+     */
+    public getModuleLogger(moduleId: string): ILogger {
+        return this.getLogger(this.getModuleLoggerName(moduleId), `Modular KB: ${moduleId}`);
+    }
+
+    /**
+     * Закрытие канала вывода модуля; файл журнала модуля сохраняется
+     * @param moduleId ID модуля
+     */
+    public disposeModuleLogger(moduleId: string): void {
+        const name = this.getModuleLoggerName(moduleId);
+        this.loggers.get(name)?.channel.dispose();
+        this.loggers.delete(name);
+    }
+
+    /**
+     * Показ канала журнала
+     * @param target Журнал расширения или Core
+     */
+    public show(target: 'extension' | 'core' = 'extension'): void {
+        this.getLogger(target, target === 'core' ? 'KB Core' : 'Modular KB').channel.show(true);
+    }
+
+    public dispose(): void {
+        for (const logger of this.loggers.values()) {
+            logger.channel.dispose();
+        }
+        this.loggers.clear();
+        if (logManager === this) {
+            logManager = undefined;
+            setLogProvider(undefined);
+        }
+    }
+
+    private getModuleLoggerName(moduleId: string): string {
+        return `module-${moduleId.replace(/[^\w.-]/g, '_')}`;
+    }
+
+    private getLogger(name: string, channelName: string): ChannelLogger {
+        let logger = this.loggers.get(name);
+        if (!logger) {
+            logger = new ChannelLogger(
+                vscode.window.createOutputChannel(channelName, { log: true }),
+                new RotatingLogFile(path.join(this.logDir, `${name}.log`), this.maxFileSize, this.maxFiles)
+            );
+            this.loggers.set(name, logger);
+        }
+        return logger;
+    }
+}
+
+let logManager: LogManager | undefined;
+
+/**
+ * Создание журналов расширения; вызывается первым при активации
+ * @param context Контекст расширения
+ */
+export function initializeLogging(context: vscode.ExtensionContext): LogManager {
+    logManager?.dispose();
+    logManager = new LogManager(context.logUri.fsPath);
+    setLogProvider(logManager);
+    context.subscriptions.push(logManager);
+    return logManager;
+}
@@ -0,0 +1,76 @@
+import { ILogger } from '../interfaces/module';
+
+/**
+ * Источник журналов расширения. Реализуется LogManager, который создаётся при активации;
+ * сам модуль не зависит от vscode, поэтому его можно использовать во вспомогательных классах и тестах.
+ */
+export interface ILogProvider {
+    readonly extension: ILogger;
+    readonly core: ILogger;
+    getModuleLogger(moduleId: string): ILogger;
+    disposeModuleLogger(moduleId: string): void;
+    show(target: 'extension' | 'core'): void;
+}
+
+let provider: ILogProvider | undefined;
+
+// До инициализации (и в тестах) сообщения выводятся в консоль
+const consoleLogger: ILogger = {
+    trace: (message, ...args) => console.debug(message, ...args),
+    debug: (message, ...args) => console.debug(message, ...args),
+    info: (message, ...args) => console.log(message, ...args),
+    warn: (message, ...args) => console.warn(message, ...args),
+    error: (message, ...args) => console.error(message, ...args)
+};
+
+/**
+ * Установка источника журналов; undefined возвращает вывод в консоль
+ * @param logProvider Источник журналов
+ */
+export function setLogProvider(logProvider: ILogProvider | undefined): void {
+    provider = logProvider;
+}
+
+/**
+ * Журнал расширения. Обращается к текущему LogManager при каждой записи,
+ * поэтому его можно импортировать до инициализации журналов.
+ */
+export const log: ILogger = {
+    trace: (message, ...args) => (provider?.extension ?? consoleLogger).trace(message, ...args),
+    debug: (message, ...args) => (provider?.extension ?? consoleLogger).debug(message, ...args),
+    info: (message, ...args) => (provider?.extension ?? consoleLogger).info(message, ...args),
+    warn: (message, ...args) => (provider?.extension ?? consoleLogger).warn(message, ...args),
+    error: (message, ...args) => (provider?.extension ?? consoleLogger).error(message, ...args)
+};
+
+/**
+ * Журнал вывода процесса Core
+ */
+export function getCoreLogger(): ILogger {
+    return provider?.core ?? consoleLogger;
+}
+
+/**
+ * Журнал модуля
+ * @param moduleId ID модуля
+ */
+export function getModuleLogger(moduleId: string): ILogger {
+    return provider?.getModuleLogger(moduleId) ?? consoleLogger;
+}
+
+/**
+ * Закрытие канала вывода модуля, который удалён или отключён. При перезагрузке модуля канал
+ * не закрывается: getModuleLogger возвращает тот же канал для того же ID.
+ * @param moduleId ID модуля
+ */
+export function disposeModuleLogger(moduleId: string): void {
+    provider?.disposeModuleLogger(moduleId);
+}
+
+/**
+ * Показ журнала расширения или Core
+ * @param target Журнал расширения или Core
+ */
+export function showLog(target: 'extension' | 'core' = 'extension'): void {
+    provider?.show(target);
+}
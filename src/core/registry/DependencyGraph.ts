@@ -0,0 +1,198 @@
+/**
+ * Результат разрешения графа зависимостей модулей
+ */
+export interface IDependencyResolution {
+    /**
+     * Порядок загрузки: каждая зависимость идёт раньше зависящих от неё модулей
+     */
+    order: string[];
+
+    /**
+     * Найденные циклы зависимостей (каждый цикл - список ID модулей)
+     */
+    cycles: string[][];
+
+    /**
+     * Отсутствующие зависимости: ID модуля -> список недостающих ID
+     */
+    missing: Map<string, string[]>;
+
+    /**
+     * Модули, которые нельзя загрузить: ID модуля -> причина
+     */
+    blocked: Map<string, string>;
+}
+
+/**
+ * Граф зависимостей между модулями
+ */
+export class DependencyGraph {
+    private nodes: Map<string, string[]> = new Map();
+
+    /**
+     * Добавление модуля в граф (повторное добавление заменяет список зависимостей)
+     * @param id ID модуля
+     * @param dependencies ID модулей, от которых зависит модуль
+     */
+    public addModule(id: string, dependencies: string[] = []): void {
+        this.nodes.set(id, Array.from(new Set(dependencies)));
+    }
+
+    /**
+     * Удаление модуля из графа
+     * @param id ID модуля
+     */
+    public removeModule(id: string): void {
+        this.nodes.delete(id);
+    }
+
+    /**
+     * Проверка наличия модуля в графе
+     * @param id ID модуля
+     */
+    public hasModule(id: string): boolean {
+        return this.nodes.has(id);
+    }
+
+    /**
+     * Получение прямых зависимостей модуля
+     * @param id ID модуля
+     */
+    public getDependencies(id: string): string[] {
+        return [...(this.nodes.get(id) || [])];
+    }
+
+    /**
+     * Получение модулей, зависящих от указанного (прямо или транзитивно)
+     * @param id ID модуля
+     * @returns ID зависимых модулей в порядке их загрузки
+     */
+    public getDependents(id: string): string[] {
+        const dependents = new Set<string>();
+        const queue = [id];
+
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            for (const [candidate, dependencies] of this.nodes) {
+                if (dependencies.includes(current) && !dependents.has(candidate) && candidate !== id) {
+                    dependents.add(candidate);
+                    queue.push(candidate);
+                }
+            }
+        }
+
+        return this.resolve().order.filter(moduleId => dependents.has(moduleId));
+    }
+
+    /**
+     * Топологическая сортировка графа с обнаружением циклов и отсутствующих зависимостей
+     * @returns Порядок загрузки и список модулей, которые загрузить нельзя
+     */
+    public resolve(): IDependencyResolution {
+        const ids = Array.from(this.nodes.keys()).sort();
+        const missing = new Map<string, string[]>();
+        const blocked = new Map<string, string>();
+
+        for (const id of ids) {
+            const absent = this.getDependencies(id).filter(dependency => !this.nodes.has(dependency));
+            if (absent.length > 0) {
+                missing.set(id, absent);
+                blocked.set(id, `отсутствуют зависимости: ${absent.join(', ')}`);
+            }
+        }
+
+        const cycles = this.findCycles(ids);
+        for (const cycle of cycles) {
+            for (const id of cycle) {
+                blocked.set(id, `циклическая зависимость: ${[...cycle, cycle[0]].join(' -> ')}`);
+            }
+        }
+
+        // Алгоритм Кана по модулям без проблем; модули, чьи зависимости заблокированы,
+        // тоже становятся заблокированными
+        const order: string[] = [];
+        const placed = new Set<string>();
+        let progress = true;
+
+        while (progress) {
+            progress = false;
+            for (const id of ids) {
+                if (placed.has(id) || blocked.has(id)) {
+                    continue;
+                }
+
+                const dependencies = this.getDependencies(id);
+                const blockedDependency = dependencies.find(dependency => blocked.has(dependency));
+                if (blockedDependency) {
+                    blocked.set(id, `зависит от незагружаемого модуля ${blockedDependency}`);
+                    progress = true;
+                    continue;
+                }
+
+                if (dependencies.every(dependency => placed.has(dependency))) {
+                    order.push(id);
+                    placed.add(id);
+                    progress = true;
+                }
+            }
+        }
+
+        return { order, cycles, missing, blocked };
+    }
+
+    /**
+     * Поиск циклов (алгоритм Тарьяна для сильно связных компонент)
+     * @param ids Отсортированный список ID модулей
+     */
+    private findCycles(ids: string[]): string[][] {
+        const indexes = new Map<string, number>();
+        const lowLinks = new Map<string, number>();
+        const stack: string[] = [];
+        const onStack = new Set<string>();
+        const cycles: string[][] = [];
+        let index = 0;
+
+        const visit = (id: string): void => {
+            indexes.set(id, index);
+            lowLinks.set(id, index);
+            index++;
+            stack.push(id);
+            onStack.add(id);
+
+            for (const dependency of this.getDependencies(id)) {
+                if (!this.nodes.has(dependency)) {
+                    continue;
+                }
+                if (!indexes.has(dependency)) {
+                    visit(dependency);
+                    lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(dependency)!));
+                } else if (onStack.has(dependency)) {
+                    lowLinks.set(id, Math.min(lowLinks.get(id)!, indexes.get(dependency)!));
+                }
+            }
+
+            if (lowLinks.get(id) === indexes.get(id)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== id);
+
+                const isSelfLoop = component.length === 1 && this.getDependencies(id).includes(id);
+                if (component.length > 1 || isSelfLoop) {
+                    cycles.push(component.reverse());
+                }
+            }
+        };
+
+        for (const id of ids) {
+            if (!indexes.has(id)) {
+                visit(id);
+            }
+        }
+
+        return cycles;
+    }
+}
@@ -0,0 +1,282 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { pipeline } from 'stream';
+import { HttpClient } from '../net/HttpClient';
+import { log } from '../logging/Logger';
+
+/**
+ * Параметры загрузки файла
+ */
+export interface IDownloadOptions {
+    /**
+     * HTTP-клиент с настройками прокси и сертификатов (по умолчанию - прямое подключение)
+     */
+    client?: HttpClient;
+
+    headers?: Record<string, string>;
+
+    /**
+     * Максимальное время ожидания данных от сервера в миллисекундах
+     */
+    timeout: number;
+
+    /**
+     * Количество повторных попыток после сетевой ошибки
+     */
+    retries: number;
+
+    /**
+     * Задержка перед первой повторной попыткой в миллисекундах (удваивается с каждой попыткой)
+     */
+    retryDelay?: number;
+
+    /**
+     * Отмена загрузки пользователем
+     */
+    token?: vscode.CancellationToken;
+
+    /**
+     * Прогресс загрузки в байтах (total не известен, если сервер не сообщил размер)
+     */
+    onProgress?: (received: number, total: number | undefined) => void;
+}
+
+/**
+ * Загрузка отменена пользователем
+ */
+export class DownloadCancelledError extends Error {
+    constructor() {
+        super('Загрузка отменена пользователем');
+        this.name = 'DownloadCancelledError';
+    }
+}
+
+/**
+ * Ответ сервера с кодом ошибки
+ */
+export class HttpStatusError extends Error {
+    constructor(public readonly statusCode: number, statusMessage: string | undefined) {
+        super(`Ошибка загрузки файла: ${statusCode} ${statusMessage ?? ''}`.trim());
+        this.name = 'HttpStatusError';
+    }
+}
+
+// Максимальное число перенаправлений в одной попытке
+const MAX_REDIRECTS = 5;
+
+/**
+ * Ошибки сервера и сети повторяются; ошибки клиента (кроме таймаута и лимита запросов) - нет
+ * @param error Ошибка попытки загрузки
+ */
+function isRetryable(error: unknown): boolean {
+    if (error instanceof DownloadCancelledError) {
+        return false;
+    }
+    if (error instanceof HttpStatusError) {
+        return error.statusCode >= 500 || error.statusCode === 408 || error.statusCode === 416 || error.statusCode === 429;
+    }
+    return true;
+}
+
+/**
+ * Пауза перед повторной попыткой, прерываемая отменой
+ * @param ms Длительность паузы
+ * @param token Отмена загрузки
+ */
+function delay(ms: number, token?: vscode.CancellationToken): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            subscription?.dispose();
+            resolve();
+        }, ms);
+        const subscription = token?.onCancellationRequested(() => {
+            clearTimeout(timer);
+            subscription?.dispose();
+            reject(new DownloadCancelledError());
+        });
+    });
+}
+
+/**
+ * Путь к файлу с валидатором (ETag или Last-Modified) частично загруженного файла
+ * @param partPath Путь к частично загруженному файлу
+ */
+function getValidatorPath(partPath: string): string {
+    return `${partPath}.validator`;
+}
+
+/**
+ * Одна попытка загрузки с докачкой уже полученной части через заголовок Range
+ * @param client HTTP-клиент
+ * @param url Адрес файла
+ * @param partPath Путь к частично загруженному файлу
+ * @param options Параметры загрузки
+ * @param origin Origin исходного адреса: заголовки передаются только на него
+ * @param redirects Число пройденных перенаправлений
+ */
+function downloadAttempt(
+    client: HttpClient,
+    url: string,
+    partPath: string,
+    options: IDownloadOptions,
+    origin: string,
+    redirects: number = 0
+): Promise<void> {
+    const offset = fs.existsSync(partPath) ? fs.statSync(partPath).size : 0;
+    const validatorPath = getValidatorPath(partPath);
+    const validator = offset > 0 && fs.existsSync(validatorPath) ? fs.readFileSync(validatorPath, 'utf8') : undefined;
+
+    const headers: Record<string, string> = new URL(url).origin === origin ? { ...options.headers } : {};
+    if (offset > 0) {
+        headers['Range'] = `bytes=${offset}-`;
+        // Если файл на сервере изменился, сервер вернёт его целиком вместо продолжения
+        if (validator) {
+            headers['If-Range'] = validator;
+        }
+    }
+
+    return new Promise<void>((resolve, reject) => {
+        let cancellation: vscode.Disposable | undefined;
+        let settled = false;
+        const finish = (error?: Error) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            cancellation?.dispose();
+            if (error) {
+                reject(error);
+            } else {
+                resolve();
+            }
+        };
+
+        const request = client.get(url, { headers }, (response) => {
+            const statusCode = response.statusCode ?? 0;
+
+            if ([301, 302, 303, 307, 308].includes(statusCode) && response.headers.location) {
+                response.resume();
+                if (redirects >= MAX_REDIRECTS) {
+                    finish(new Error(`Слишком много перенаправлений при загрузке ${url}`));
+                    return;
+                }
+                const redirectUrl = new URL(response.headers.location, url).toString();
+                log.info(`FileDownloader: Перенаправление на ${redirectUrl}`);
+                downloadAttempt(client, redirectUrl, partPath, options, origin, redirects + 1).then(() => finish(), finish);
+                return;
+            }
+
+            if (statusCode === 416) {
+                // Сохранённая часть не соответствует файлу на сервере: начинаем заново
+                response.resume();
+                fs.rmSync(partPath, { force: true });
+                finish(new HttpStatusError(statusCode, response.statusMessage));
+                return;
+            }
+
+            if (statusCode !== 200 && statusCode !== 206) {
+                response.resume();
+                finish(new HttpStatusError(statusCode, response.statusMessage));
+                return;
+            }
+
+            let received = 0;
+            let total: number | undefined;
+            if (statusCode === 206) {
+                const range = /^bytes (\d+)-\d+\/(\d+|\*)$/.exec(response.headers['content-range'] ?? '');
+                if (!range || Number(range[1]) !== offset) {
+                    response.resume();
+                    fs.rmSync(partPath, { force: true });
+                    finish(new Error('Сервер вернул неожиданный диапазон данных'));
+                    return;
+                }
+                received = offset;
+                total = range[2] === '*' ? undefined : Number(range[2]);
+                log.info(`FileDownloader: Продолжение загрузки с ${offset} байт`);
+            } else {
+                const length = Number(response.headers['content-length']);
+                total = Number.isFinite(length) && length > 0 ? length : undefined;
+            }
+
+            const newValidator = response.headers.etag ?? response.headers['last-modified'];
+            if (newValidator) {
+                fs.writeFileSync(validatorPath, newValidator);
+            } else if (statusCode === 200) {
+                fs.rmSync(validatorPath, { force: true });
+            }
+
+            options.onProgress?.(received, total);
+            response.on('data', (chunk: Buffer) => {
+                received += chunk.length;
+                options.onProgress?.(received, total);
+            });
+
+            const output = fs.createWriteStream(partPath, { flags: statusCode === 206 ? 'a' : 'w' });
+            pipeline(response, output, (error) => {
+                if (error) {
+                    finish(error);
+                } else if (total !== undefined && received < total) {
+                    finish(new Error(`Соединение прервано: получено ${received} из ${total} байт`));
+                } else {
+                    finish();
+                }
+            });
+        });
+
+        // Таймаут срабатывает, если сервер не присылает данные дольше заданного времени
+        request.setTimeout(options.timeout, () => {
+            request.destroy(new Error(`Сервер не отвечает дольше ${options.timeout} мс`));
+        });
+        request.on('error', (error) => finish(error));
+
+        cancellation = options.token?.onCancellationRequested(() => {
+            request.destroy();
+            finish(new DownloadCancelledError());
+        });
+        if (options.token?.isCancellationRequested) {
+            request.destroy();
+            finish(new DownloadCancelledError());
+        }
+    });
+}
+
+/**
+ * Потоковая загрузка файла на диск с докачкой, повторными попытками и отменой.
+ * Данные пишутся в файл <filePath>.part, который переименовывается после завершения загрузки;
+ * при ошибке или отмене он сохраняется, и следующая загрузка продолжается с места остановки.
+ * @param url Адрес файла
+ * @param filePath Путь для сохранения
+ * @param options Параметры загрузки
+ */
+export async function downloadFile(url: string, filePath: string, options: IDownloadOptions): Promise<void> {
+    const partPath = `${filePath}.part`;
+    const origin = new URL(url).origin;
+    const client = options.client ?? new HttpClient();
+
+    try {
+        for (let attempt = 0; ; attempt++) {
+            if (options.token?.isCancellationRequested) {
+                throw new DownloadCancelledError();
+            }
+
+            try {
+                await downloadAttempt(client, url, partPath, options, origin);
+                fs.renameSync(partPath, filePath);
+                fs.rmSync(getValidatorPath(partPath), { force: true });
+                return;
+            } catch (error) {
+                if (!isRetryable(error) || attempt >= options.retries) {
+                    throw error;
+                }
+                const backoff = (options.retryDelay ?? 1000) * 2 ** attempt;
+                log.warn(`FileDownloader: Попытка ${attempt + 1} загрузки ${url} не удалась (${error instanceof Error ? error.message : error}), повтор через ${backoff} мс`);
+                await delay(backoff, options.token);
+            }
+        }
+    } finally {
+        // Клиент по умолчанию создан для этой загрузки и закрывается вместе с ней
+        if (!options.client) {
+            client.dispose();
+        }
+    }
+}
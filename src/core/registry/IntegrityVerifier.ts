@@ -0,0 +1,140 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { log } from '../logging/Logger';
+
+/**
+ * Данные для проверки целостности архива модуля
+ */
+export interface IModuleIntegrity {
+    /**
+     * SHA-256 архива в шестнадцатеричном виде
+     */
+    sha256?: string;
+
+    /**
+     * Отсоединённая подпись архива в base64
+     */
+    signature?: string;
+
+    /**
+     * Издатель, ключом которого подписан архив (если не указан, проверяются все доверенные ключи)
+     */
+    publisher?: string;
+}
+
+/**
+ * Доверенный открытый ключ издателя модулей
+ */
+export interface ITrustedPublisherKey {
+    publisher: string;
+
+    /**
+     * Открытый ключ в формате PEM (Ed25519, ECDSA или RSA)
+     */
+    publicKey: string;
+}
+
+/**
+ * Политика проверки архивов модулей
+ */
+export interface IIntegrityPolicy {
+    trustedKeys: ITrustedPublisherKey[];
+    requireChecksum: boolean;
+    requireSignature: boolean;
+}
+
+/**
+ * Вычисление SHA-256 файла
+ * @param filePath Путь к файлу
+ * @returns Хэш в шестнадцатеричном виде
+ */
+export function computeFileSha256(filePath: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        const hash = crypto.createHash('sha256');
+        fs.createReadStream(filePath)
+            .on('data', (chunk) => hash.update(chunk))
+            .on('end', () => resolve(hash.digest('hex')))
+            .on('error', reject);
+    });
+}
+
+/**
+ * Проверка подписи данных открытым ключом
+ * @param data Подписанные данные
+ * @param signature Подпись
+ * @param publicKeyPem Открытый ключ в формате PEM
+ */
+function verifySignature(data: Buffer, signature: Buffer, publicKeyPem: string): boolean {
+    try {
+        const key = crypto.createPublicKey(publicKeyPem);
+        // Для Ed25519/Ed448 алгоритм хэширования задаётся самим ключом
+        const algorithm = key.asymmetricKeyType === 'ed25519' || key.asymmetricKeyType === 'ed448' ? null : 'sha256';
+        return crypto.verify(algorithm, data, key, signature);
+    } catch (error) {
+        log.warn('IntegrityVerifier: Не удалось проверить подпись ключом:', error);
+        return false;
+    }
+}
+
+/**
+ * Проверка архива модуля: SHA-256 и (при наличии) подписи доверенного издателя
+ * @param filePath Путь к архиву
+ * @param integrity Ожидаемый хэш и подпись
+ * @param policy Доверенные ключи и обязательность проверок
+ * @returns Фактический SHA-256 архива
+ */
+export async function verifyModuleArchive(filePath: string, integrity: IModuleIntegrity, policy: IIntegrityPolicy): Promise<string> {
+    const actualSha256 = await computeFileSha256(filePath);
+
+    if (integrity.sha256) {
+        if (integrity.sha256.trim().toLowerCase() !== actualSha256) {
+            throw new Error(`Контрольная сумма архива не совпадает: ожидается ${integrity.sha256}, получено ${actualSha256}`);
+        }
+    } else if (policy.requireChecksum) {
+        throw new Error('Для архива модуля не указан SHA-256, а проверка контрольной суммы обязательна');
+    }
+
+    if (integrity.signature) {
+        const keys = integrity.publisher
+            ? policy.trustedKeys.filter(key => key.publisher === integrity.publisher)
+            : policy.trustedKeys;
+        if (keys.length === 0) {
+            throw new Error(integrity.publisher
+                ? `Нет доверенного ключа издателя ${integrity.publisher}`
+                : 'Архив подписан, но не настроено ни одного доверенного ключа издателя');
+        }
+
+        const data = fs.readFileSync(filePath);
+        const signature = Buffer.from(integrity.signature.trim(), 'base64');
+        const trustedKey = keys.find(key => verifySignature(data, signature, key.publicKey));
+        if (!trustedKey) {
+            throw new Error('Подпись архива модуля недействительна или сделана недоверенным ключом');
+        }
+        log.info(`IntegrityVerifier: Подпись архива проверена ключом издателя ${trustedKey.publisher}`);
+    } else if (policy.requireSignature) {
+        throw new Error('Архив модуля не подписан, а проверка подписи обязательна');
+    }
+
+    return actualSha256;
+}
+
+/**
+ * Чтение данных целостности локального архива из файлов рядом с ним:
+ * <архив>.sha256 (хэш, как выводит sha256sum) и <архив>.sig (подпись в base64)
+ * @param zipFilePath Путь к архиву
+ */
+export function readSidecarIntegrity(zipFilePath: string): IModuleIntegrity {
+    const integrity: IModuleIntegrity = {};
+
+    const checksumPath = `${zipFilePath}.sha256`;
+    if (fs.existsSync(checksumPath)) {
+        integrity.sha256 = fs.readFileSync(checksumPath, 'utf8').trim().split(/\s+/)[0];
+    }
+
+    const signaturePath = `${zipFilePath}.sig`;
+    if (fs.existsSync(signaturePath)) {
+        integrity.signature = fs.readFileSync(signaturePath, 'utf8').trim();
+    }
+
+    return integrity;
+}
@@ -0,0 +1,168 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from '../logging/Logger';
+import { computeFileSha256 } from './IntegrityVerifier';
+import { IModulesRegistry } from './RegistrySources';
+
+/**
+ * Сохранённый индекс реестра с валидаторами для условных запросов
+ */
+export interface ICachedRegistry {
+    url: string;
+    registry: IModulesRegistry;
+    etag?: string;
+    lastModified?: string;
+    fetchedAt: number;
+}
+
+/**
+ * Дисковый кэш модульной системы: последний успешно загруженный индекс каждого
+ * реестра и архивы модулей, адресуемые по SHA-256. Позволяет устанавливать
+ * и переустанавливать модули без сети.
+ */
+export class ModuleCache {
+    private readonly registriesDir: string;
+    private readonly archivesDir: string;
+    private readonly downloadsDir: string;
+    // Соответствие URL архива его SHA-256, чтобы найти архив, для которого реестр не указывает хэш
+    private readonly archiveIndexPath: string;
+
+    /**
+     * @param cacheDir Корневая директория кэша
+     */
+    constructor(private readonly cacheDir: string) {
+        this.registriesDir = path.join(cacheDir, 'registries');
+        this.archivesDir = path.join(cacheDir, 'archives');
+        this.downloadsDir = path.join(cacheDir, 'downloads');
+        this.archiveIndexPath = path.join(this.archivesDir, 'index.json');
+    }
+
+    /**
+     * Получение сохранённого индекса реестра
+     * @param url Адрес реестра
+     */
+    public getRegistry(url: string): ICachedRegistry | undefined {
+        try {
+            const cached = JSON.parse(fs.readFileSync(this.getRegistryPath(url), 'utf8')) as ICachedRegistry;
+            return cached.url === url && Array.isArray(cached.registry?.modules) ? cached : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Сохранение успешно загруженного индекса реестра
+     * @param url Адрес реестра
+     * @param registry Индекс реестра
+     * @param etag Заголовок ETag ответа
+     * @param lastModified Заголовок Last-Modified ответа
+     */
+    public storeRegistry(url: string, registry: IModulesRegistry, etag?: string, lastModified?: string): void {
+        const cached: ICachedRegistry = { url, registry, etag, lastModified, fetchedAt: Date.now() };
+        this.writeFileAtomically(this.getRegistryPath(url), JSON.stringify(cached));
+    }
+
+    /**
+     * Поиск архива модуля в кэше. Повреждённый архив удаляется из кэша.
+     * @param url Адрес архива
+     * @param sha256 Ожидаемый SHA-256 (если известен, поиск идёт по нему)
+     * @returns Путь к архиву в кэше или undefined
+     */
+    public async getArchive(url: string, sha256?: string): Promise<string | undefined> {
+        const digest = sha256?.trim().toLowerCase() || this.readArchiveIndex()[url];
+        if (!digest || !/^[0-9a-f]{64}$/.test(digest)) {
+            return undefined;
+        }
+
+        const archivePath = path.join(this.archivesDir, `${digest}.zip`);
+        if (!fs.existsSync(archivePath)) {
+            return undefined;
+        }
+        if (await computeFileSha256(archivePath) !== digest) {
+            log.warn(`ModuleCache: Архив ${archivePath} повреждён и удалён из кэша`);
+            fs.rmSync(archivePath, { force: true });
+            return undefined;
+        }
+        return archivePath;
+    }
+
+    /**
+     * Сохранение проверенного архива модуля
+     * @param url Адрес, с которого загружен архив
+     * @param filePath Путь к архиву
+     * @param sha256 SHA-256 архива
+     */
+    public storeArchive(url: string, filePath: string, sha256: string): void {
+        const digest = sha256.toLowerCase();
+        const archivePath = path.join(this.archivesDir, `${digest}.zip`);
+        if (!fs.existsSync(archivePath)) {
+            fs.mkdirSync(this.archivesDir, { recursive: true });
+            const tempPath = `${archivePath}.${process.pid}.tmp`;
+            fs.copyFileSync(filePath, tempPath);
+            fs.renameSync(tempPath, archivePath);
+        }
+
+        const index = this.readArchiveIndex();
+        if (index[url] !== digest) {
+            index[url] = digest;
+            this.writeFileAtomically(this.archiveIndexPath, JSON.stringify(index, null, 2));
+        }
+    }
+
+    /**
+     * Путь для загрузки архива: постоянный для одного адреса, чтобы прерванную загрузку можно было продолжить
+     * @param url Адрес архива
+     */
+    public getDownloadPath(url: string): string {
+        fs.mkdirSync(this.downloadsDir, { recursive: true });
+        return path.join(this.downloadsDir, `${this.hashUrl(url)}.zip`);
+    }
+
+    /**
+     * Очистка кэша
+     * @returns Освобождённый объём в байтах
+     */
+    public clear(): number {
+        const size = this.getDirectorySize(this.cacheDir);
+        fs.rmSync(this.cacheDir, { recursive: true, force: true });
+        log.info(`ModuleCache: Кэш ${this.cacheDir} очищен, освобождено ${size} байт`);
+        return size;
+    }
+
+    private getRegistryPath(url: string): string {
+        return path.join(this.registriesDir, `${this.hashUrl(url)}.json`);
+    }
+
+    private hashUrl(url: string): string {
+        return crypto.createHash('sha256').update(url).digest('hex').substring(0, 32);
+    }
+
+    private readArchiveIndex(): Record<string, string> {
+        try {
+            return JSON.parse(fs.readFileSync(this.archiveIndexPath, 'utf8'));
+        } catch {
+            return {};
+        }
+    }
+
+    // Запись через временный файл, чтобы прерванная запись не оставила повреждённый JSON
+    private writeFileAtomically(filePath: string, content: string): void {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        fs.writeFileSync(tempPath, content);
+        fs.renameSync(tempPath, filePath);
+    }
+
+    private getDirectorySize(dir: string): number {
+        if (!fs.existsSync(dir)) {
+            return 0;
+        }
+        let size = 0;
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            const entryPath = path.join(dir, entry.name);
+            size += entry.isDirectory() ? this.getDirectorySize(entryPath) : fs.statSync(entryPath).size;
+        }
+        return size;
+    }
+}
@@ -0,0 +1,123 @@
+import * as semver from 'semver';
+
+/**
+ * Ключ в поле engines манифеста, задающий диапазон версий расширения Modular KB
+ */
+export const HOST_ENGINE_KEY = 'modularkb';
+
+/**
+ * Требования модуля к версиям хоста и других модулей
+ */
+export interface IModuleRequirements {
+    /**
+     * Диапазон версий расширения Modular KB (engines.modularkb)
+     */
+    engine?: string;
+
+    /**
+     * Зависимости от модулей: ID модуля -> диапазон версий
+     */
+    dependencies: Record<string, string>;
+}
+
+/**
+ * Чтение диапазонов версий зависимостей из манифеста.
+ * В package.json поле dependencies занято npm-зависимостями, поэтому зависимости
+ * от других модулей задаются в moduleDependencies; массив в dependencies тоже принимается.
+ * Зависимость может быть задана массивом ID (любая версия) или объектом { id: диапазон }.
+ * @param manifest Содержимое манифеста модуля
+ * @returns ID модуля-зависимости -> диапазон версий
+ */
+export function readDependencyRanges(manifest: any): Record<string, string> {
+    const declared = manifest.moduleDependencies !== undefined
+        ? manifest.moduleDependencies
+        : Array.isArray(manifest.dependencies) ? manifest.dependencies : [];
+    const ranges: Record<string, string> = {};
+
+    if (Array.isArray(declared)) {
+        for (const dependency of declared) {
+            if (typeof dependency === 'string' && dependency.length > 0) {
+                ranges[dependency] = '*';
+            }
+        }
+    } else if (declared && typeof declared === 'object') {
+        for (const [dependency, range] of Object.entries(declared)) {
+            ranges[dependency] = typeof range === 'string' && range.length > 0 ? range : '*';
+        }
+    }
+
+    return ranges;
+}
+
+/**
+ * Чтение требований модуля из манифеста
+ * @param manifest Содержимое манифеста модуля
+ */
+export function readModuleRequirements(manifest: any): IModuleRequirements {
+    const engine = manifest.engines && typeof manifest.engines[HOST_ENGINE_KEY] === 'string'
+        ? manifest.engines[HOST_ENGINE_KEY]
+        : undefined;
+
+    return { engine, dependencies: readDependencyRanges(manifest) };
+}
+
+/**
+ * Проверка соответствия версии диапазону
+ * @param version Версия
+ * @param range Диапазон версий в формате semver
+ * @param subject Описание проверяемого объекта для сообщения об ошибке
+ * @returns Причина несовместимости или undefined, если версия подходит
+ */
+function checkRange(version: string, range: string, subject: string): string | undefined {
+    if (semver.validRange(range) === null) {
+        return `${subject}: некорректный диапазон версий "${range}"`;
+    }
+
+    const coerced = semver.valid(version) || semver.valid(semver.coerce(version));
+    if (!coerced) {
+        return `${subject}: некорректная версия "${version}"`;
+    }
+
+    if (!semver.satisfies(coerced, range, { includePrerelease: true })) {
+        return `${subject}: требуется ${range}, установлена ${version}`;
+    }
+
+    return undefined;
+}
+
+/**
+ * Проверка требований модуля относительно хоста и доступных модулей
+ * @param requirements Требования модуля
+ * @param hostVersion Версия расширения Modular KB
+ * @param availableVersions Версии доступных модулей: ID -> версия
+ * @returns Список причин несовместимости (пустой, если модуль совместим)
+ */
+export function checkModuleRequirements(
+    requirements: IModuleRequirements,
+    hostVersion: string,
+    availableVersions: Map<string, string>
+): string[] {
+    const problems: string[] = [];
+
+    if (requirements.engine) {
+        const problem = checkRange(hostVersion, requirements.engine, 'Modular KB');
+        if (problem) {
+            problems.push(problem);
+        }
+    }
+
+    for (const [dependency, range] of Object.entries(requirements.dependencies)) {
+        const version = availableVersions.get(dependency);
+        if (version === undefined) {
+            problems.push(`${dependency}: модуль не установлен`);
+            continue;
+        }
+
+        const problem = checkRange(version, range, dependency);
+        if (problem) {
+            problems.push(problem);
+        }
+    }
+
+    return problems;
+}
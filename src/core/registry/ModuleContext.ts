@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ILogger, IModuleContext } from '../interfaces/module';
+import { getModuleLogger, log } from '../logging/Logger';
+
+/**
+ * Хранилище состояния модуля: ключи модуля изолированы префиксом
+ * внутри общего хранилища расширения
+ */
+class ModuleMemento implements vscode.Memento {
+    private readonly prefix: string;
+
+    constructor(private memento: vscode.Memento, moduleId: string) {
+        this.prefix = `modularKb.module.${moduleId}.`;
+    }
+
+    public keys(): readonly string[] {
+        return this.memento.keys()
+            .filter(key => key.startsWith(this.prefix))
+            .map(key => key.substring(this.prefix.length));
+    }
+
+    public get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.memento.get<T>(this.prefix + key) ?? defaultValue;
+    }
+
+    public update(key: string, value: any): Thenable<void> {
+        return this.memento.update(this.prefix + key, value);
+    }
+}
+
+/**
+ * Контекст модуля: ресурсы, добавленные в subscriptions, принадлежат модулю
+ * и освобождаются при его деактивации
+ */
+export class ModuleContext implements IModuleContext {
+    public readonly subscriptions: vscode.Disposable[] = [];
+    public readonly globalState: vscode.Memento;
+    public readonly workspaceState: vscode.Memento;
+    public readonly extensionPath: string;
+    public readonly globalStoragePath: string;
+
+    constructor(
+        public readonly moduleId: string,
+        public readonly modulePath: string | undefined,
+        extensionContext: vscode.ExtensionContext
+    ) {
+        this.globalState = new ModuleMemento(extensionContext.globalState, moduleId);
+        this.workspaceState = new ModuleMemento(extensionContext.workspaceState, moduleId);
+        this.extensionPath = extensionContext.extensionPath;
+        this.globalStoragePath = path.join(extensionContext.globalStorageUri.fsPath, 'modules', moduleId);
+    }
+
+    /**
+     * Журнал модуля; канал вывода создаётся при первом обращении
+     */
+    public get logger(): ILogger {
+        return getModuleLogger(this.moduleId);
+    }
+
+    /**
+     * Освобождение всех ресурсов модуля в порядке, обратном их регистрации.
+     * После этого контекст можно использовать повторно при следующей активации.
+     */
+    public disposeSubscriptions(): void {
+        const disposables = this.subscriptions.splice(0, this.subscriptions.length).reverse();
+        for (const disposable of disposables) {
+            try {
+                disposable.dispose();
+            } catch (error) {
+                log.error(`ModuleContext: Error disposing resource of module ${this.moduleId}:`, error);
+            }
+        }
+    }
+}
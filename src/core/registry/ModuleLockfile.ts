@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isSafeModuleDirectoryName } from './ModuleManifest';
+
+/**
+ * Путь к lock-файлу модулей относительно корня рабочей области
+ */
+export const LOCKFILE_PATH = path.join('.modular-kb', 'modules.lock.json');
+
+/**
+ * Файл в директории модуля, в котором сохраняется, откуда модуль установлен
+ */
+export const INSTALL_INFO_FILE = '.modular-kb-install.json';
+
+/**
+ * Способы установки модуля: из реестра, по URL архива, из локального архива или из Git-репозитория
+ */
+export const MODULE_INSTALL_TYPES = ['registry', 'url', 'file', 'git'] as const;
+
+/**
+ * Сведения об установке модуля
+ */
+export interface IModuleInstallInfo {
+    /**
+     * Способ установки
+     */
+    type: typeof MODULE_INSTALL_TYPES[number];
+
+    /**
+     * Имя источника реестра (для type = registry)
+     */
+    registry?: string;
+
+    /**
+     * Адрес архива, путь к нему или URL репозитория
+     */
+    resolved: string;
+
+    /**
+     * SHA-256 установленного архива
+     */
+    sha256?: string;
+}
+
+/**
+ * Запись о модуле в lock-файле
+ */
+export interface ILockedModule extends Partial<IModuleInstallInfo> {
+    version: string;
+
+    /**
+     * Имя директории модуля, если оно отличается от ID
+     */
+    directory?: string;
+
+    dependencies?: string[];
+}
+
+/**
+ * Lock-файл модулей рабочей области
+ */
+export interface IModuleLockfile {
+    lockfileVersion: 1;
+    // ID модуля -> зафиксированная версия и источник
+    modules: Record<string, ILockedModule>;
+}
+
+/**
+ * Установленный модуль, сравниваемый с lock-файлом
+ */
+export interface IInstalledModuleState {
+    version: string;
+    directory: string;
+    dependencies: string[];
+    install?: IModuleInstallInfo;
+}
+
+/**
+ * Отличия установленных модулей от lock-файла
+ */
+export interface ILockfileDiff {
+    // Модули из lock-файла, которые не установлены
+    install: string[];
+    // Модули, установленные в другой версии или из архива с другим SHA-256
+    update: string[];
+    // Установленные модули, которых нет в lock-файле
+    remove: string[];
+}
+
+/**
+ * Результат синхронизации модулей с lock-файлом
+ */
+export interface ILockfileSyncResult {
+    installed: string[];
+    removed: string[];
+    // Описания ошибок в виде "ID: причина"
+    failed: string[];
+}
+
+/**
+ * Чтение сведений об установке модуля
+ * @param moduleDir Директория модуля
+ * @returns Сведения или undefined, если модуль установлен без них (например, скопирован вручную)
+ */
+export function readInstallInfo(moduleDir: string): IModuleInstallInfo | undefined {
+    try {
+        const info = JSON.parse(fs.readFileSync(path.join(moduleDir, INSTALL_INFO_FILE), 'utf8'));
+        return typeof info?.type === 'string' && typeof info?.resolved === 'string' ? info : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Сохранение сведений об установке в директории модуля
+ * @param moduleDir Директория модуля
+ * @param info Сведения об установке
+ */
+export function writeInstallInfo(moduleDir: string, info: IModuleInstallInfo): void {
+    fs.writeFileSync(path.join(moduleDir, INSTALL_INFO_FILE), JSON.stringify(info, null, 2));
+}
+
+/**
+ * Источник модуля для lock-файла. Lock-файл общий для всех участников, поэтому путь к локальному
+ * архиву записывается относительно рабочей области; архив вне рабочей области записывается
+ * без адреса, и такой модуль по lock-файлу не устанавливается.
+ * @param install Сведения об установке модуля
+ * @param workspaceRoot Корень рабочей области
+ */
+function toLockedSource(install: IModuleInstallInfo | undefined, workspaceRoot: string | undefined): Partial<IModuleInstallInfo> | undefined {
+    if (install?.type !== 'file') {
+        return install;
+    }
+    const relative = workspaceRoot ? path.relative(workspaceRoot, install.resolved) : '';
+    if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+        return { ...install, resolved: undefined };
+    }
+    return { ...install, resolved: relative.split(path.sep).join('/') };
+}
+
+/**
+ * Адрес архива модуля из lock-файла: путь к локальному архиву разрешается относительно рабочей области
+ * @param locked Запись о модуле в lock-файле
+ * @param workspaceRoot Корень рабочей области
+ * @returns URL, путь к архиву или undefined, если источник не записан
+ */
+export function resolveLockedSource(locked: ILockedModule, workspaceRoot: string): string | undefined {
+    if (!locked.resolved) {
+        return undefined;
+    }
+    return locked.type === 'file' ? path.resolve(workspaceRoot, locked.resolved) : locked.resolved;
+}
+
+/**
+ * Создание lock-файла по установленным модулям
+ * @param installed ID модуля -> состояние установленного модуля
+ * @param workspaceRoot Корень рабочей области, относительно которого записываются пути к локальным архивам
+ */
+export function createLockfile(installed: Map<string, IInstalledModuleState>, workspaceRoot?: string): IModuleLockfile {
+    const modules: Record<string, ILockedModule> = {};
+    for (const id of [...installed.keys()].sort()) {
+        const state = installed.get(id)!;
+        modules[id] = {
+            version: state.version,
+            ...toLockedSource(state.install, workspaceRoot),
+            directory: state.directory !== id ? state.directory : undefined,
+            dependencies: state.dependencies.length > 0 ? [...state.dependencies].sort() : undefined
+        };
+    }
+    return { lockfileVersion: 1, modules };
+}
+
+/**
+ * Проверка записи о модуле в lock-файле. Lock-файл приходит из рабочей области, поэтому
+ * директория модуля должна оставаться внутри директории модулей, а источник — быть известного типа.
+ * @param id ID модуля
+ * @param entry Запись о модуле
+ * @returns Описание ошибки или undefined, если запись корректна
+ */
+function validateLockedModule(id: string, entry: any): string | undefined {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+        return 'запись должна быть объектом';
+    }
+    if (typeof entry.version !== 'string') {
+        return 'не указана версия';
+    }
+    if (entry.directory !== undefined && !isSafeModuleDirectoryName(entry.directory)) {
+        return `недопустимая директория модуля "${entry.directory}"`;
+    }
+    if (entry.directory === undefined && !isSafeModuleDirectoryName(id)) {
+        return 'ID нельзя использовать как имя директории модуля';
+    }
+    if (entry.type !== undefined && !MODULE_INSTALL_TYPES.includes(entry.type)) {
+        return `неизвестный тип источника "${entry.type}"`;
+    }
+    for (const field of ['registry', 'resolved', 'sha256']) {
+        if (entry[field] !== undefined && typeof entry[field] !== 'string') {
+            return `поле "${field}" должно быть строкой`;
+        }
+    }
+    if (entry.dependencies !== undefined
+        && (!Array.isArray(entry.dependencies) || entry.dependencies.some((dependency: unknown) => typeof dependency !== 'string'))) {
+        return 'поле "dependencies" должно быть списком ID модулей';
+    }
+    return undefined;
+}
+
+/**
+ * Чтение lock-файла
+ * @param filePath Путь к lock-файлу
+ * @returns Lock-файл или undefined, если файла нет
+ */
+export function readLockfile(filePath: string): IModuleLockfile | undefined {
+    if (!fs.existsSync(filePath)) {
+        return undefined;
+    }
+
+    let lockfile: any;
+    try {
+        lockfile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Lock-файл ${filePath} повреждён: ${error instanceof Error ? error.message : error}`);
+    }
+    if (lockfile?.lockfileVersion !== 1) {
+        throw new Error(`Неподдерживаемая версия lock-файла ${filePath}: ${lockfile?.lockfileVersion}`);
+    }
+    if (typeof lockfile.modules !== 'object' || lockfile.modules === null || Array.isArray(lockfile.modules)) {
+        throw new Error(`Lock-файл ${filePath} не содержит списка модулей`);
+    }
+    for (const [id, entry] of Object.entries<any>(lockfile.modules)) {
+        const problem = validateLockedModule(id, entry);
+        if (problem) {
+            throw new Error(`Lock-файл ${filePath} некорректен: модуль ${id}: ${problem}`);
+        }
+    }
+    return lockfile;
+}
+
+/**
+ * Запись lock-файла; JSON форматируется так, чтобы изменения было удобно просматривать в системе контроля версий
+ * @param filePath Путь к lock-файлу
+ * @param lockfile Lock-файл
+ */
+export function writeLockfile(filePath: string, lockfile: IModuleLockfile): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `${JSON.stringify(lockfile, null, 2)}\n`);
+}
+
+/**
+ * Сравнение установленных модулей с lock-файлом. SHA-256 сравнивается,
+ * только если он зафиксирован в lock-файле.
+ * @param lockfile Lock-файл
+ * @param installed ID модуля -> состояние установленного модуля
+ */
+export function diffLockfile(lockfile: IModuleLockfile, installed: Map<string, IInstalledModuleState>): ILockfileDiff {
+    const diff: ILockfileDiff = { install: [], update: [], remove: [] };
+    for (const [id, locked] of Object.entries(lockfile.modules)) {
+        const state = installed.get(id);
+        if (!state) {
+            diff.install.push(id);
+        } else if (state.version !== locked.version
+            || (locked.sha256 !== undefined && state.install?.sha256?.toLowerCase() !== locked.sha256.toLowerCase())) {
+            diff.update.push(id);
+        }
+    }
+    for (const id of installed.keys()) {
+        if (!(id in lockfile.modules)) {
+            diff.remove.push(id);
+        }
+    }
+    return diff;
+}
+
+/**
+ * Проверка, что установленные модули соответствуют lock-файлу
+ * @param diff Отличия от lock-файла
+ */
+export function isLockfileSatisfied(diff: ILockfileDiff): boolean {
+    return diff.install.length === 0 && diff.update.length === 0 && diff.remove.length === 0;
+}
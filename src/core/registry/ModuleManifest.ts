@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+
+// Схема подключается и при сборке webpack, и из out/ в тестах: обе раскладки на три уровня ниже корня
+const manifestSchema = require('../../../schemas/module-manifest.schema.json');
+
+/**
+ * Файлы манифеста модуля в порядке приоритета: если есть оба, используется module.json
+ */
+export const MANIFEST_FILE_NAMES = ['module.json', 'package.json'];
+
+/**
+ * Команда, которую модуль без точки входа регистрирует при активации
+ */
+export interface IManifestCommand {
+    command: string;
+    title: string;
+    category?: string;
+}
+
+/**
+ * Манифест модуля (module.json или package.json)
+ */
+export interface IModuleManifest {
+    // ID модуля; если не указан, используется name
+    id?: string;
+    name?: string;
+    version: string;
+    displayName?: string;
+    description?: string;
+    // JavaScript-точка входа относительно директории модуля
+    main?: string;
+    // Тип точки входа .NET-модуля, загружаемого Core
+    entryType?: string;
+    moduleDependencies?: string[] | Record<string, string>;
+    dependencies?: string[] | Record<string, string>;
+    engines?: Record<string, string>;
+    contributes?: {
+        commands?: IManifestCommand[];
+    };
+    [key: string]: unknown;
+}
+
+/**
+ * Прочитанный и проверенный манифест модуля
+ */
+export interface IModuleManifestFile {
+    filePath: string;
+    // Исходный текст манифеста: по нему замечаются изменения на диске
+    content: string;
+    manifest: IModuleManifest;
+}
+
+/**
+ * Манифест модуля не соответствует схеме
+ */
+export class ManifestValidationError extends Error {
+    constructor(public readonly filePath: string, public readonly problems: string[]) {
+        super(`Манифест ${filePath} некорректен: ${problems.join('; ')}`);
+        this.name = 'ManifestValidationError';
+    }
+}
+
+let validateManifest: ValidateFunction | undefined;
+
+/**
+ * Функция проверки по схеме schemas/module-manifest.schema.json; компилируется при первом обращении
+ */
+function getManifestValidator(): ValidateFunction {
+    if (!validateManifest) {
+        const ajv = new Ajv({ allErrors: true, verbose: true, allowUnionTypes: true });
+        // Ключевое слово VS Code для текста ошибки шаблона
+        ajv.addKeyword('patternErrorMessage');
+        validateManifest = ajv.compile(manifestSchema);
+    }
+    return validateManifest;
+}
+
+/**
+ * Описание ошибки схемы с указанием поля
+ * @param error Ошибка Ajv
+ */
+function formatManifestError(error: ErrorObject): string {
+    const field = error.instancePath.slice(1).replace(/\//g, '.');
+    const subject = field ? `поле "${field}"` : 'манифест';
+    switch (error.keyword) {
+        case 'required': {
+            const property = String(error.params.missingProperty);
+            return `отсутствует обязательное поле "${field ? `${field}.${property}` : property}"`;
+        }
+        case 'anyOf':
+            return field ? `${subject}: ${error.message}` : 'отсутствует обязательное поле "id" (или "name")';
+        case 'type':
+            return `${subject} должно иметь тип ${String(error.params.type).replace(',', ' или ')}`;
+        case 'pattern':
+            return `${subject}: ${error.parentSchema?.patternErrorMessage ?? `значение не соответствует шаблону ${error.params.pattern}`}`;
+        case 'minLength':
+            return `${subject} не может быть пустым`;
+        case 'uniqueItems':
+            return `${subject} содержит повторяющиеся элементы`;
+        default:
+            return `${subject}: ${error.message}`;
+    }
+}
+
+/**
+ * Проверка манифеста по схеме
+ * @param manifest Разобранное содержимое манифеста
+ * @returns Описания ошибок по полям (пустой список, если манифест корректен)
+ */
+export function validateModuleManifest(manifest: unknown): string[] {
+    const validate = getManifestValidator();
+    if (validate(manifest)) {
+        return [];
+    }
+    // Ошибки вариантов anyOf заменяются одной ошибкой самого anyOf; ошибка if дублирует ошибки ветки then
+    return (validate.errors ?? [])
+        .filter(error => !error.schemaPath.startsWith('#/anyOf/') && error.keyword !== 'if')
+        .map(formatManifestError);
+}
+
+/**
+ * Поиск файла манифеста в директории модуля с учётом приоритета
+ * @param moduleDir Директория модуля
+ * @returns Путь к манифесту или undefined, если его нет
+ */
+export function findManifestFile(moduleDir: string): string | undefined {
+    return MANIFEST_FILE_NAMES
+        .map(fileName => path.join(moduleDir, fileName))
+        .find(filePath => fs.existsSync(filePath));
+}
+
+/**
+ * Проверка, что имя можно использовать как имя директории модуля: один сегмент пути без
+ * разделителей, не начинающийся с точки (".", ".." и служебные директории реестра)
+ * @param name Имя директории, например ID модуля из реестра или lock-файла
+ */
+export function isSafeModuleDirectoryName(name: unknown): name is string {
+    return typeof name === 'string' && name.length > 0 && !name.startsWith('.') && !/[\\/:\0]/.test(name);
+}
+
+/**
+ * ID модуля из проверенного манифеста
+ * @param manifest Манифест модуля
+ */
+export function getManifestId(manifest: IModuleManifest): string {
+    return manifest.id || manifest.name!;
+}
+
+/**
+ * Чтение и проверка манифеста модуля
+ * @param moduleDir Директория модуля
+ * @returns Путь, текст и содержимое манифеста
+ */
+export function readModuleManifest(moduleDir: string): IModuleManifestFile {
+    const filePath = findManifestFile(moduleDir);
+    if (!filePath) {
+        throw new Error(`В директории ${moduleDir} нет манифеста модуля (${MANIFEST_FILE_NAMES.join(' или ')})`);
+    }
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(content);
+    } catch (error) {
+        throw new ManifestValidationError(filePath, [`некорректный JSON: ${error instanceof Error ? error.message : error}`]);
+    }
+
+    const problems = validateModuleManifest(manifest);
+    if (problems.length > 0) {
+        throw new ManifestValidationError(filePath, problems);
+    }
+    return { filePath, content, manifest: manifest as IModuleManifest };
+}
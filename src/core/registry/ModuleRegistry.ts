@@ -1,50 +1,113 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import * as https from 'https';
+import * as http from 'http';
 import * as os from 'os';
 import * as childProcess from 'child_process';
-import * as yauzl from 'yauzl';
-import { IModule, IModuleMetadata, IModuleRegistry } from '../interfaces/module';
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+    IModule,
+    IModuleContext,
+    IModuleMetadata,
+    IModuleRegistry,
+    IModuleStateChangeEvent,
+    IModuleStatus,
+    ModuleLifecycleState
+} from '../interfaces/module';
 import { CoreManager } from '../CoreManager';
+import { DependencyGraph } from './DependencyGraph';
+import { ModuleContext } from './ModuleContext';
+import { ModuleCache } from './ModuleCache';
+import { DownloadCancelledError, downloadFile } from './FileDownloader';
+import { findManifestFile, getManifestId, IModuleManifest, isSafeModuleDirectoryName, readModuleManifest } from './ModuleManifest';
+import {
+    createLockfile,
+    diffLockfile,
+    IInstalledModuleState,
+    ILockfileDiff,
+    ILockfileSyncResult,
+    IModuleLockfile,
+    LOCKFILE_PATH,
+    readInstallInfo,
+    readLockfile,
+    resolveLockedSource,
+    writeInstallInfo,
+    writeLockfile
+} from './ModuleLockfile';
+import { HttpClient } from '../net/HttpClient';
+import { disposeModuleLogger, log, showLog } from '../logging/Logger';
+import { DEFAULT_ZIP_EXTRACTION_LIMITS, extractZipSafely } from './ZipExtractor';
+import { IIntegrityPolicy, IModuleIntegrity, ITrustedPublisherKey, readSidecarIntegrity, verifyModuleArchive } from './IntegrityVerifier';
+import { ModuleEnablementScope, ModuleStateStore } from './ModuleStateStore';
+import { checkModuleRequirements, readDependencyRanges, readModuleRequirements } from './ModuleCompatibility';
+import * as semver from 'semver';
+import {
+    DEFAULT_REGISTRY_SOURCE,
+    getDownloadHeaders,
+    IModuleRegistryItem,
+    IModulesRegistry,
+    IRegistrySource,
+    isRemoteUrl,
+    mergeRegistries,
+    readRegistrySources,
+    toLocalPath
+} from './RegistrySources';
+
+// Webpack подменяет require собственной реализацией, а модули загружаются с диска во время работы
+declare const __non_webpack_require__: NodeJS.Require | undefined;
+const nodeRequire: NodeJS.Require = typeof __non_webpack_require__ === 'function' ? __non_webpack_require__ : require;
 
-// Функция для подробного логирования
-function logToFile(message: string) {
-    const logDir = path.join(os.tmpdir(), 'modular-kb-logs');
-    if (!fs.existsSync(logDir)) {
-        fs.mkdirSync(logDir, { recursive: true });
-    }
-    const logFile = path.join(logDir, 'module-registry.log');
-    const timestamp = new Date().toISOString();
-    fs.appendFileSync(logFile, `[${timestamp}] ${message}\n`);
-    console.log(message); // Дублируем в консоль
+/**
+ * Результат синхронизации реестра с содержимым директории модулей
+ */
+export interface IModuleSyncResult {
+    added: string[];
+    removed: string[];
+    reloaded: string[];
+    failed: string[];
+}
 
-    // Показываем важные сообщения в интерфейсе
-    if (message.includes('ОШИБКА') || message.includes('Error')) {
-        vscode.window.showErrorMessage(`Диагностика: ${message}`);
-    } else if (message.includes('Найден') || message.includes('успешно')) {
-        vscode.window.showInformationMessage(`Диагностика: ${message}`);
-    }
+/**
+ * Параметры установки модуля из архива
+ */
+export interface IModuleInstallOptions {
+    // Дополнительные заголовки запроса архива (например, авторизация приватного реестра)
+    headers?: Record<string, string>;
+    // Отмена установки пользователем
+    token?: vscode.CancellationToken;
+    // Прогресс загрузки архива в байтах (total не известен, если сервер не сообщил размер)
+    onDownloadProgress?: (received: number, total: number | undefined) => void;
+    // Имя источника реестра, из которого устанавливается модуль (записывается в lock-файл)
+    registry?: string;
 }
 
 /**
- * Интерфейс для описания модуля в реестре
+ * Доступное обновление установленного модуля
  */
-interface IModuleRegistryItem {
+export interface IModuleUpdate {
     id: string;
-    version: string;
     displayName: string;
-    description: string;
-    downloadUrl: string;
-    author: string;
-    dependencies: string[];
+    currentVersion: string;
+    latestVersion: string;
+    // Источник реестра, из которого будет установлена новая версия
+    source?: string;
+    // Можно ли установить новую версию с учётом версии хоста и зависимостей
+    compatible: boolean;
+    incompatibilityReasons: string[];
+    // Обновления зависимостей, без которых новая версия несовместима с установленными модулями;
+    // устанавливаются вместе с модулем
+    requiredUpdates: string[];
 }
 
 /**
- * Интерфейс для реестра модулей
+ * Результат обновления модулей
  */
-interface IModulesRegistry {
-    modules: IModuleRegistryItem[];
+export interface IModuleUpdateResult {
+    updated: string[];
+    // Описания ошибок в виде "ID: причина"
+    failed: string[];
+    // Обновления зависимостей, добавленные к выбранным модулям
+    addedDependencies: string[];
 }
 
 /**
@@ -52,14 +115,57 @@ interface IModulesRegistry {
  */
 export class ModuleRegistry implements IModuleRegistry {
     private modules: Map<string, IModule> = new Map();
+    // Граф зависимостей зарегистрированных модулей
+    private dependencyGraph: DependencyGraph = new DependencyGraph();
+    // Директории внешних модулей: ID модуля -> путь
+    private modulePaths: Map<string, string> = new Map();
+    // Содержимое манифестов загруженных модулей, чтобы замечать их изменения на диске
+    private manifestSignatures: Map<string, string> = new Map();
+    // Манифесты директорий, которые не удалось загрузить при синхронизации: путь -> содержимое
+    private syncFailures: Map<string, string> = new Map();
+    // Контексты модулей: через них модули регистрируют ресурсы, освобождаемые при деактивации
+    private moduleContexts: Map<string, ModuleContext> = new Map();
+    // Установленные, но отключённые модули: ID модуля -> метаданные и путь
+    private disabledModules: Map<string, { metadata: IModuleMetadata; modulePath: string }> = new Map();
+    private stateStore: ModuleStateStore;
+    // Кэш индексов реестров и архивов модулей для работы без сети
+    private moduleCache: ModuleCache;
+    // HTTP-клиент с настройками прокси и сертификатов; пересоздаётся при изменении настроек
+    private httpClient: HttpClient | undefined;
+    // Состояния жизненного цикла модулей
+    private moduleStatuses: Map<string, IModuleStatus> = new Map();
+    private readonly moduleStateEmitter = new vscode.EventEmitter<IModuleStateChangeEvent>();
+    // Очередь операций, изменяющих директорию модулей: синхронизация, установка, обновление,
+    // перезагрузка и удаление выполняются по одной
+    private operationQueue: Promise<unknown> = Promise.resolve();
+    // Отмечает вызовы внутри выполняющейся операции, чтобы вложенные операции не ждали сами себя
+    private readonly operationScope = new AsyncLocalStorage<boolean>();
+
+    /**
+     * Событие изменения состояния жизненного цикла модуля
+     */
+    public readonly onDidChangeModuleState = this.moduleStateEmitter.event;
     private context: vscode.ExtensionContext;
     private modulesDir: string;
 
-    // URL реестра модулей
-    private readonly registryUrl = 'https://raw.githubusercontent.com/OleynikAleksandr/modular-kb-modules-registry/main/modules-registry.json';
-
-    constructor(context: vscode.ExtensionContext) {
+    /**
+     * @param context Контекст расширения
+     * @param customHttpClient HTTP-клиент вместо создаваемого по настройкам IDE (например, для тестов)
+     */
+    constructor(context: vscode.ExtensionContext, private readonly customHttpClient?: HttpClient) {
         this.context = context;
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('http') || event.affectsConfiguration('modularKb.network')) {
+                    this.httpClient?.dispose();
+                    this.httpClient = undefined;
+                }
+            }),
+            { dispose: () => this.httpClient?.dispose() }
+        );
+        this.stateStore = new ModuleStateStore(context);
+        this.moduleCache = new ModuleCache(path.join(context.globalStorageUri.fsPath, 'cache'));
+        context.subscriptions.push(this.moduleStateEmitter);
         // Получаем путь к директории с внешними модулями в зависимости от IDE
         this.modulesDir = this.getModulesPath(context);
 
@@ -68,9 +174,41 @@ export class ModuleRegistry implements IModuleRegistry {
             fs.mkdirSync(this.modulesDir, { recursive: true });
         }
 
-        console.log('ModuleRegistry: Initialized');
-        console.log(`ModuleRegistry: Modules directory: ${this.modulesDir}`);
-        console.log(`ModuleRegistry: IDE: ${vscode.env.appName}`);
+        log.info('ModuleRegistry: Initialized');
+        log.info(`ModuleRegistry: Modules directory: ${this.modulesDir}`);
+        log.info(`ModuleRegistry: IDE: ${vscode.env.appName}`);
+    }
+
+    /**
+     * Версия расширения Modular KB, с которой проверяется совместимость модулей
+     */
+    private get hostVersion(): string {
+        return this.context.extension?.packageJSON?.version || '0.0.0';
+    }
+
+    /**
+     * Выполнение операции над модулями после завершения предыдущих. Операция, вызванная
+     * из другой операции, выполняется сразу.
+     * @param operation Операция
+     * @returns Результат операции
+     */
+    private runExclusive<T>(operation: () => Promise<T>): Promise<T> {
+        if (this.operationScope.getStore()) {
+            return operation();
+        }
+        const result = this.operationQueue.then(() => this.operationScope.run(true, operation));
+        this.operationQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Версии зарегистрированных модулей
+     * @returns ID модуля -> версия
+     */
+    private getInstalledVersions(): Map<string, string> {
+        const versions = new Map<string, string>();
+        this.modules.forEach((module, id) => versions.set(id, module.version));
+        return versions;
     }
 
     /**
@@ -81,11 +219,11 @@ export class ModuleRegistry implements IModuleRegistry {
     private getModulesPath(context: vscode.ExtensionContext): string {
         // Получаем базовый путь расширения
         const extensionPath = context.extensionPath;
-        console.log(`ModuleRegistry: Текущий путь расширения: ${extensionPath}`);
+        log.info(`ModuleRegistry: Текущий путь расширения: ${extensionPath}`);
 
         // Определяем, какая IDE используется
         const appName = vscode.env.appName;
-        console.log(`ModuleRegistry: Имя приложения: ${appName}`);
+        log.info(`ModuleRegistry: Имя приложения: ${appName}`);
 
         // Используем USERPROFILE для получения домашней директории пользователя
         const userHome = process.env.USERPROFILE || process.env.HOME || '';
@@ -96,7 +234,7 @@ export class ModuleRegistry implements IModuleRegistry {
         for (const part of extensionParts) {
             if (part.includes('modularkb.modularkb-extension-')) {
                 installedVersion = part.replace('modularkb.modularkb-extension-', '');
-                console.log(`ModuleRegistry: Найдена версия в пути: ${installedVersion}`);
+                log.info(`ModuleRegistry: Найдена версия в пути: ${installedVersion}`);
                 break;
             }
         }
@@ -107,26 +245,26 @@ export class ModuleRegistry implements IModuleRegistry {
         if (appName.includes('Visual Studio Code')) {
             // Правильный путь для VS Code
             modulesPath = path.join(userHome, '.vscode', 'extensions', `modularkb.modularkb-extension-${installedVersion}`, 'modules');
-            logToFile(`ДИАГНОСТИКА: Определен путь к модулям VS Code: ${modulesPath}`);
+            log.debug(`ModuleRegistry: Определен путь к модулям VS Code: ${modulesPath}`);
         } else if (appName.includes('Cursor')) {
             // Правильный путь для Cursor
             modulesPath = path.join(userHome, '.cursor', 'extensions', `modularkb.modularkb-extension-${installedVersion}`, 'modules');
-            logToFile(`ДИАГНОСТИКА: Определен путь к модулям Cursor: ${modulesPath}`);
+            log.debug(`ModuleRegistry: Определен путь к модулям Cursor: ${modulesPath}`);
         } else if (appName.includes('Windsurf')) {
             // Правильный путь для Windsurf
             modulesPath = path.join(userHome, '.windsurf', 'extensions', `modularkb.modularkb-extension-${installedVersion}`, 'modules');
-            logToFile(`ДИАГНОСТИКА: Определен путь к модулям Windsurf: ${modulesPath}`);
+            log.debug(`ModuleRegistry: Определен путь к модулям Windsurf: ${modulesPath}`);
         } else if (appName.includes('Trae')) {
             // Правильный путь для Trae
             modulesPath = path.join(userHome, '.trae', 'extensions', `modularkb.modularkb-extension-${installedVersion}`, 'modules');
-            logToFile(`ДИАГНОСТИКА: Определен путь к модулям Trae: ${modulesPath}`);
+            log.debug(`ModuleRegistry: Определен путь к модулям Trae: ${modulesPath}`);
         } else {
             // По умолчанию используем путь из контекста
             modulesPath = path.join(extensionPath, 'modules');
-            logToFile(`ДИАГНОСТИКА: Используется путь по умолчанию: ${modulesPath}`);
+            log.debug(`ModuleRegistry: Используется путь по умолчанию: ${modulesPath}`);
         }
 
-        console.log(`ModuleRegistry: Итоговый путь к модулям: ${modulesPath}`);
+        log.info(`ModuleRegistry: Итоговый путь к модулям: ${modulesPath}`);
 
         return modulesPath;
     }
@@ -136,36 +274,681 @@ export class ModuleRegistry implements IModuleRegistry {
      * @param module Module instance to register
      */
     public async registerModule(module: IModule): Promise<void> {
-        console.log(`ModuleRegistry: Attempting to register module ${module.id} (${module.displayName})`);
+        await this.registerModuleWithPath(module, undefined);
+    }
+
+    /**
+     * Регистрация модуля с созданием его контекста
+     * @param module Экземпляр модуля
+     * @param modulePath Директория модуля (для внешних модулей)
+     */
+    private async registerModuleWithPath(module: IModule, modulePath: string | undefined): Promise<void> {
+        log.info(`ModuleRegistry: Attempting to register module ${module.id} (${module.displayName})`);
 
         if (this.modules.has(module.id)) {
-            console.warn(`ModuleRegistry: Module with ID ${module.id} is already registered`);
+            log.warn(`ModuleRegistry: Module with ID ${module.id} is already registered`);
             return;
         }
 
+        // Все зависимости должны быть зарегистрированы раньше самого модуля
+        const missingDependencies = (module.dependencies || []).filter(dependency => !this.modules.has(dependency));
+        if (missingDependencies.length > 0) {
+            throw new Error(`Модуль ${module.id} зависит от незарегистрированных модулей: ${missingDependencies.join(', ')}`);
+        }
+
         try {
-            console.log(`ModuleRegistry: Initializing module ${module.id}...`);
+            log.info(`ModuleRegistry: Initializing module ${module.id}...`);
+            this.setModuleState(module.id, 'initializing');
 
-            // Initialize the module
-            await module.initialize(this.context, this);
+            // Initialize the module with its own context
+            const moduleContext = new ModuleContext(module.id, modulePath, this.context);
+            this.moduleContexts.set(module.id, moduleContext);
+            await module.initialize(moduleContext, this);
 
-            console.log(`ModuleRegistry: Module ${module.id} initialized successfully`);
+            log.info(`ModuleRegistry: Module ${module.id} initialized successfully`);
+            this.setModuleState(module.id, 'initialized');
 
             // Add module to registry
             this.modules.set(module.id, module);
+            this.dependencyGraph.addModule(module.id, module.dependencies);
 
-            console.log(`ModuleRegistry: Module ${module.id} (${module.version}) successfully registered`);
-            console.log(`ModuleRegistry: Current module count: ${this.modules.size}`);
+            log.info(`ModuleRegistry: Module ${module.id} (${module.version}) successfully registered`);
+            log.info(`ModuleRegistry: Current module count: ${this.modules.size}`);
         } catch (error) {
-            console.error(`ModuleRegistry: Error registering module ${module.id}:`, error);
+            this.disposeModuleResources(module.id);
+            this.moduleContexts.delete(module.id);
+            this.setModuleState(module.id, 'failed', { failedPhase: 'initialize', error });
+            log.error(`ModuleRegistry: Error registering module ${module.id}:`, error);
             if (error instanceof Error) {
-                console.error(`ModuleRegistry: Error details: ${error.message}`);
-                console.error(`ModuleRegistry: Stack trace: ${error.stack}`);
+                log.error(`ModuleRegistry: Error details: ${error.message}`);
+                log.error(`ModuleRegistry: Stack trace: ${error.stack}`);
             }
             throw error;
         }
     }
 
+    /**
+     * Unregister a module: deactivate it and dispose everything it registered.
+     * Fails if other registered modules depend on it.
+     * @param id Module ID
+     */
+    public async unregisterModule(id: string): Promise<void> {
+        const module = this.modules.get(id);
+        if (!module) {
+            log.warn(`ModuleRegistry: Module with ID ${id} is not registered`);
+            return;
+        }
+
+        const dependents = this.getDependentModules(id);
+        if (dependents.length > 0) {
+            throw new Error(`Модуль ${id} используется модулями: ${dependents.join(', ')}`);
+        }
+
+        await this.deactivateModule(id);
+
+        this.modules.delete(id);
+        this.moduleContexts.delete(id);
+        this.modulePaths.delete(id);
+        this.manifestSignatures.delete(id);
+        this.moduleStatuses.delete(id);
+        this.dependencyGraph.removeModule(id);
+
+        log.info(`ModuleRegistry: Module ${id} unregistered. Current module count: ${this.modules.size}`);
+    }
+
+    /**
+     * Получение состояния жизненного цикла модуля
+     * @param id ID модуля
+     */
+    public getModuleStatus(id: string): IModuleStatus | undefined {
+        const status = this.moduleStatuses.get(id);
+        return status ? { ...status } : undefined;
+    }
+
+    /**
+     * Смена состояния модуля с уведомлением подписчиков
+     * @param id ID модуля
+     * @param state Новое состояние
+     * @param details Этап и ошибка для состояния failed, длительность активации
+     */
+    private setModuleState(
+        id: string,
+        state: ModuleLifecycleState,
+        details: { failedPhase?: IModuleStatus['failedPhase']; error?: unknown; activationDurationMs?: number } = {}
+    ): void {
+        const previous = this.moduleStatuses.get(id);
+        const now = Date.now();
+        const status: IModuleStatus = {
+            state,
+            stateChangedAt: now,
+            activatedAt: state === 'active' ? now : previous?.activatedAt,
+            activationDurationMs: details.activationDurationMs ?? previous?.activationDurationMs,
+            // Последняя ошибка сохраняется, пока модуль снова не станет активным
+            lastError: state === 'active' ? undefined : previous?.lastError
+        };
+
+        if (state === 'failed') {
+            status.failedPhase = details.failedPhase;
+            status.lastError = details.error instanceof Error ? details.error.message : String(details.error);
+        }
+
+        this.moduleStatuses.set(id, status);
+        log.info(`ModuleRegistry: Module ${id} state: ${previous?.state ?? 'none'} -> ${state}`);
+        this.moduleStateEmitter.fire({ id, previousState: previous?.state, status: { ...status } });
+    }
+
+    /**
+     * Активация зарегистрированного модуля с учётом состояния
+     * @param id ID модуля
+     */
+    private async activateModule(id: string): Promise<void> {
+        const module = this.modules.get(id);
+        if (!module) {
+            throw new Error(`Модуль ${id} не зарегистрирован`);
+        }
+
+        this.setModuleState(id, 'activating');
+        const startedAt = Date.now();
+        try {
+            await module.activate();
+        } catch (error) {
+            this.setModuleState(id, 'failed', { failedPhase: 'activate', error, activationDurationMs: Date.now() - startedAt });
+            throw error;
+        }
+        this.setModuleState(id, 'active', { activationDurationMs: Date.now() - startedAt });
+    }
+
+    /**
+     * Деактивация модуля и освобождение его ресурсов; ошибки деактивации только фиксируются
+     * @param id ID модуля
+     */
+    private async deactivateModule(id: string): Promise<void> {
+        const module = this.modules.get(id);
+        if (!module) {
+            return;
+        }
+
+        this.setModuleState(id, 'deactivating');
+        try {
+            await module.deactivate();
+            this.setModuleState(id, 'deactivated');
+            log.info(`ModuleRegistry: Module ${id} deactivated`);
+        } catch (error) {
+            this.setModuleState(id, 'failed', { failedPhase: 'deactivate', error });
+            log.error(`ModuleRegistry: Error deactivating module ${id}:`, error);
+        }
+
+        this.disposeModuleResources(id);
+    }
+
+    /**
+     * Получение зарегистрированных модулей, зависящих от указанного (прямо или транзитивно)
+     * @param id ID модуля
+     * @returns ID зависимых модулей в порядке их загрузки
+     */
+    public getDependentModules(id: string): string[] {
+        return this.dependencyGraph.getDependents(id).filter(dependent => this.modules.has(dependent));
+    }
+
+    /**
+     * Удаление установленного модуля: выгрузка и удаление его директории
+     * @param id ID модуля
+     * @param cascade Удалить также модули, зависящие от указанного
+     * @returns ID удалённых модулей
+     */
+    public async uninstallModule(id: string, cascade: boolean = false): Promise<string[]> {
+        return this.runExclusive(async () => {
+            // Отключённый модуль не зарегистрирован, достаточно удалить его директорию
+            const disabled = this.disabledModules.get(id);
+            if (disabled) {
+                fs.rmSync(disabled.modulePath, { recursive: true, force: true });
+                this.disabledModules.delete(id);
+                await this.stateStore.enable(id);
+                log.info(`ModuleRegistry: Директория отключённого модуля ${id} удалена: ${disabled.modulePath}`);
+                return [id];
+            }
+
+            if (!this.modules.has(id)) {
+                throw new Error(`Модуль ${id} не установлен`);
+            }
+
+            const dependents = this.getDependentModules(id);
+            if (dependents.length > 0 && !cascade) {
+                throw new Error(`Модуль ${id} нельзя удалить: от него зависят модули ${dependents.join(', ')}`);
+            }
+
+            // Сначала удаляем зависимые модули, начиная с последних в порядке загрузки
+            const toRemove = [...dependents].reverse().concat(id);
+            for (const moduleId of toRemove) {
+                const modulePath = this.modulePaths.get(moduleId);
+                await this.unregisterModule(moduleId);
+                disposeModuleLogger(moduleId);
+
+                if (modulePath && fs.existsSync(modulePath)) {
+                    fs.rmSync(modulePath, { recursive: true, force: true });
+                    log.info(`ModuleRegistry: Директория модуля ${moduleId} удалена: ${modulePath}`);
+                }
+            }
+
+            return toRemove;
+        });
+    }
+
+    /**
+     * Перезагрузка модуля с диска без перезапуска IDE: модуль и зависящие от него модули
+     * выгружаются, их код удаляется из кэша require, манифесты читаются заново
+     * @param id ID модуля
+     * @param modulePath Новая директория модуля (по умолчанию - текущая)
+     * @returns ID перезагруженных модулей в порядке загрузки
+     */
+    public async reloadModule(id: string, modulePath?: string): Promise<string[]> {
+        return this.runExclusive(async () => {
+            const currentPath = this.modulePaths.get(id);
+            if (!this.modules.has(id) || !currentPath) {
+                throw new Error(`Модуль ${id} не загружен из директории модулей`);
+            }
+
+            // Запоминаем директории до выгрузки: после неё модули исчезают из реестра
+            const dependents = this.getDependentModules(id);
+            const paths = new Map<string, string>([[id, modulePath || currentPath]]);
+            for (const dependent of dependents) {
+                const dependentPath = this.modulePaths.get(dependent);
+                if (dependentPath) {
+                    paths.set(dependent, dependentPath);
+                }
+            }
+
+            for (const moduleId of [...dependents].reverse().concat(id)) {
+                await this.unregisterModule(moduleId);
+            }
+
+            for (const moduleId of [id, ...dependents]) {
+                this.clearRequireCache(paths.get(moduleId)!);
+            }
+            if (currentPath !== paths.get(id)) {
+                this.clearRequireCache(currentPath);
+            }
+
+            // Загружаем модуль, затем зависимые; ошибка одного зависимого не мешает остальным
+            await this.loadExternalModule(paths.get(id)!);
+
+            const reloaded = [id];
+            const errors: string[] = [];
+            for (const dependent of dependents) {
+                const dependentPath = paths.get(dependent);
+                if (!dependentPath) {
+                    continue;
+                }
+                try {
+                    await this.loadExternalModule(dependentPath);
+                    reloaded.push(dependent);
+                } catch (error) {
+                    errors.push(`${dependent}: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+
+            if (errors.length > 0) {
+                throw new Error(`Модуль ${id} перезагружен, но не удалось загрузить зависимые модули: ${errors.join('; ')}`);
+            }
+
+            log.info(`ModuleRegistry: Перезагружены модули: ${reloaded.join(', ')}`);
+            return reloaded;
+        });
+    }
+
+    /**
+     * Откат модуля к резервной копии предыдущей версии. Заменённая версия
+     * становится новой резервной копией, поэтому откат можно отменить повторным откатом.
+     * @param moduleName Имя директории модуля
+     */
+    public async rollbackModule(moduleName: string): Promise<void> {
+        return this.runExclusive(async () => {
+            const backupDir = this.getModuleBackupPath(moduleName);
+            if (!fs.existsSync(backupDir)) {
+                throw new Error(`Для модуля ${moduleName} нет резервной копии`);
+            }
+
+            // Забираем резервную копию, чтобы на её место можно было сохранить текущую версию
+            const restoreDir = path.join(this.modulesDir, `.rollback-${moduleName}-${Date.now()}`);
+            fs.renameSync(backupDir, restoreDir);
+            try {
+                await this.replaceModuleDirectory(moduleName, restoreDir);
+            } finally {
+                if (fs.existsSync(restoreDir)) {
+                    fs.renameSync(restoreDir, backupDir);
+                }
+            }
+            log.info(`ModuleRegistry: Модуль ${moduleName} откачен к резервной копии`);
+        });
+    }
+
+    /**
+     * Список резервных копий модулей, доступных для отката
+     * @returns Имя директории модуля, версия резервной копии и установленная версия
+     */
+    public listModuleBackups(): { moduleName: string; backupVersion: string; currentVersion?: string }[] {
+        const backupsDir = path.join(this.modulesDir, '.backups');
+        if (!fs.existsSync(backupsDir)) {
+            return [];
+        }
+
+        const backups: { moduleName: string; backupVersion: string; currentVersion?: string }[] = [];
+        for (const dirent of fs.readdirSync(backupsDir, { withFileTypes: true })) {
+            if (!dirent.isDirectory()) {
+                continue;
+            }
+            const readVersion = (dir: string): string | undefined => {
+                try {
+                    return readModuleManifest(dir).manifest.version;
+                } catch {
+                    return undefined;
+                }
+            };
+            backups.push({
+                moduleName: dirent.name,
+                backupVersion: readVersion(path.join(backupsDir, dirent.name)) || 'unknown',
+                currentVersion: readVersion(path.join(this.modulesDir, dirent.name))
+            });
+        }
+        return backups;
+    }
+
+    /**
+     * Путь к резервной копии предыдущей версии модуля
+     * @param moduleName Имя директории модуля
+     */
+    private getModuleBackupPath(moduleName: string): string {
+        this.getModuleDirectory(moduleName);
+        return path.join(this.modulesDir, '.backups', moduleName);
+    }
+
+    /**
+     * Путь к директории модуля внутри директории модулей
+     * @param moduleName Имя директории модуля
+     * @throws Error, если имя не является одним сегментом пути внутри директории модулей
+     */
+    private getModuleDirectory(moduleName: string): string {
+        const modulesDir = path.resolve(this.modulesDir);
+        const moduleDir = path.resolve(modulesDir, moduleName);
+        if (!isSafeModuleDirectoryName(moduleName) || path.dirname(moduleDir) !== modulesDir) {
+            throw new Error(`Недопустимое имя директории модуля: "${moduleName}"`);
+        }
+        return moduleDir;
+    }
+
+    /**
+     * Поиск зарегистрированного модуля, загруженного из указанной директории
+     * @param modulePath Путь к директории модуля
+     */
+    private findModuleIdByPath(modulePath: string): string | undefined {
+        const resolvedPath = path.resolve(modulePath);
+        for (const [id, loadedPath] of this.modulePaths) {
+            if (this.modules.has(id) && path.resolve(loadedPath) === resolvedPath) {
+                return id;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Выгрузка модулей, загруженных из указанных директорий, в обратном порядке
+     * @param modulePaths Директории модулей в порядке загрузки
+     */
+    private async unloadModulesFromDirectories(modulePaths: string[]): Promise<void> {
+        for (const modulePath of [...modulePaths].reverse()) {
+            const id = this.findModuleIdByPath(modulePath);
+            if (id) {
+                await this.unregisterModule(id);
+            }
+            this.clearRequireCache(modulePath);
+        }
+    }
+
+    /**
+     * Транзакционная замена директории модуля новой версией. Текущая версия выгружается
+     * вместе с зависимыми модулями и сохраняется как резервная копия; если новая версия
+     * не проходит проверку, не загружается или не активируется, предыдущая версия
+     * возвращается на место и загружается снова.
+     * @param moduleName Имя директории модуля
+     * @param sourceDir Директория с новой версией внутри директории модулей (перемещается, а не копируется)
+     */
+    private async replaceModuleDirectory(moduleName: string, sourceDir: string): Promise<void> {
+        const moduleDir = this.getModuleDirectory(moduleName);
+
+        // Манифест и точка входа проверяются до того, как текущая версия будет выгружена
+        const { manifest } = readModuleManifest(sourceDir);
+        this.resolveModuleEntryPoint(sourceDir, manifest);
+        const newId = getManifestId(manifest);
+        const registeredPath = this.modulePaths.get(newId);
+        if (this.modules.has(newId) && registeredPath && path.resolve(registeredPath) !== path.resolve(moduleDir)) {
+            throw new Error(`Модуль ${newId} уже загружен из другой директории: ${registeredPath}`);
+        }
+
+        // Выгружаем текущую версию и запоминаем зависимые модули, чтобы загрузить их снова
+        const currentId = this.findModuleIdByPath(moduleDir);
+        const dependentPaths = currentId
+            ? this.getDependentModules(currentId)
+                .map(dependent => this.modulePaths.get(dependent))
+                .filter((dependentPath): dependentPath is string => dependentPath !== undefined)
+            : [];
+        if (currentId) {
+            await this.unloadModulesFromDirectories([moduleDir, ...dependentPaths]);
+        }
+
+        // Переименование внутри одной директории атомарно: модуль не остаётся наполовину скопированным
+        const previousDir = path.join(this.modulesDir, `.previous-${moduleName}-${Date.now()}`);
+        const hasPrevious = fs.existsSync(moduleDir);
+        if (hasPrevious) {
+            fs.renameSync(moduleDir, previousDir);
+        }
+        fs.renameSync(sourceDir, moduleDir);
+
+        try {
+            if (this.stateStore.isEnabled(newId)) {
+                await this.loadExternalModule(moduleDir);
+                for (const dependentPath of dependentPaths) {
+                    await this.loadExternalModule(dependentPath);
+                }
+            } else {
+                // Отключённый модуль не загружается, обновляются только его метаданные
+                this.disabledModules.delete(newId);
+                await this.loadModulesFromDirectories([moduleDir]);
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            log.error(`ModuleRegistry: Новая версия модуля ${moduleName} не загружена, выполняется откат:`, error);
+
+            await this.unloadModulesFromDirectories([moduleDir, ...dependentPaths]);
+            fs.renameSync(moduleDir, sourceDir);
+            if (!hasPrevious) {
+                throw new Error(`Модуль ${moduleName} не установлен: ${message}`);
+            }
+
+            fs.renameSync(previousDir, moduleDir);
+            if (currentId) {
+                try {
+                    await this.loadExternalModule(moduleDir);
+                    for (const dependentPath of dependentPaths) {
+                        await this.loadExternalModule(dependentPath);
+                    }
+                } catch (restoreError) {
+                    log.error(`ModuleRegistry: Не удалось загрузить восстановленную версию модуля ${moduleName}:`, restoreError);
+                }
+            }
+            throw new Error(`Модуль ${moduleName} не обновлён, восстановлена предыдущая версия: ${message}`);
+        }
+
+        // Новая версия работает: предыдущая становится резервной копией для отката
+        if (hasPrevious) {
+            const backupDir = this.getModuleBackupPath(moduleName);
+            fs.rmSync(backupDir, { recursive: true, force: true });
+            fs.mkdirSync(path.dirname(backupDir), { recursive: true });
+            fs.renameSync(previousDir, backupDir);
+            log.info(`ModuleRegistry: Предыдущая версия модуля ${moduleName} сохранена в ${backupDir}`);
+        }
+    }
+
+    /**
+     * Путь к директории, из которой загружаются внешние модули
+     */
+    public getModulesDirectory(): string {
+        return this.modulesDir;
+    }
+
+    /**
+     * Синхронизация реестра с директорией модулей: загрузка новых модулей,
+     * выгрузка удалённых и перезагрузка модулей с изменившимся манифестом.
+     * Директории с неполным манифестом (модуль ещё копируется) пропускаются.
+     * @returns Что изменилось в реестре
+     */
+    public async syncWithModulesDirectory(): Promise<IModuleSyncResult> {
+        return this.runExclusive(async () => {
+            const result: IModuleSyncResult = { added: [], removed: [], reloaded: [], failed: [] };
+
+            // Выгружаем модули, чьи директории удалены, вместе с зависящими от них модулями
+            for (const [id, modulePath] of Array.from(this.modulePaths)) {
+                if (fs.existsSync(modulePath) || !this.modules.has(id)) {
+                    continue;
+                }
+                for (const moduleId of [...this.getDependentModules(id)].reverse().concat(id)) {
+                    await this.unregisterModule(moduleId);
+                    disposeModuleLogger(moduleId);
+                    result.removed.push(moduleId);
+                }
+            }
+            for (const [id, { modulePath }] of Array.from(this.disabledModules)) {
+                if (!fs.existsSync(modulePath)) {
+                    this.disabledModules.delete(id);
+                    result.removed.push(id);
+                }
+            }
+
+            // Перезагружаем модули, чей манифест изменился
+            for (const [id, modulePath] of Array.from(this.modulePaths)) {
+                if (!this.modules.has(id) || result.reloaded.includes(id)) {
+                    continue;
+                }
+                const manifestContent = this.readCompleteManifest(modulePath);
+                if (manifestContent === undefined || manifestContent === this.manifestSignatures.get(id)) {
+                    continue;
+                }
+                try {
+                    result.reloaded.push(...await this.reloadModule(id));
+                } catch (error) {
+                    result.failed.push(`${id}: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+
+            // Загружаем новые модули; неудачные попытки повторяются только после изменения манифеста
+            const knownPaths = new Set([
+                ...Array.from(this.modulePaths.values()),
+                ...Array.from(this.disabledModules.values()).map(disabled => disabled.modulePath)
+            ].map(modulePath => path.resolve(modulePath)));
+            const candidates = new Map<string, string>();
+            if (fs.existsSync(this.modulesDir)) {
+                for (const dirent of fs.readdirSync(this.modulesDir, { withFileTypes: true })) {
+                    const dir = path.join(this.modulesDir, dirent.name);
+                    if (!dirent.isDirectory() || dirent.name.startsWith('.') || knownPaths.has(path.resolve(dir))) {
+                        continue;
+                    }
+                    const manifestContent = this.readCompleteManifest(dir);
+                    if (manifestContent !== undefined && this.syncFailures.get(dir) !== manifestContent) {
+                        candidates.set(dir, manifestContent);
+                    }
+                }
+            }
+
+            if (candidates.size > 0) {
+                const { loaded, failed } = await this.loadModulesFromDirectories(Array.from(candidates.keys()));
+                result.added.push(...loaded);
+                result.failed.push(...failed);
+
+                const loadedPaths = new Set(Array.from(this.modulePaths.values()));
+                for (const [dir, manifestContent] of candidates) {
+                    if (loadedPaths.has(dir)) {
+                        this.syncFailures.delete(dir);
+                    } else {
+                        this.syncFailures.set(dir, manifestContent);
+                    }
+                }
+            }
+
+            return result;
+        });
+    }
+
+    /**
+     * Чтение манифеста модуля, если директория модуля выглядит полностью скопированной:
+     * манифест разбирается, содержит ID и версию, а точка входа (если указана) существует.
+     * Соответствие схеме проверяется при загрузке, чтобы ошибки попали в результат синхронизации.
+     * @param modulePath Путь к директории модуля
+     * @returns Содержимое манифеста или undefined, если модуль ещё не готов к загрузке
+     */
+    private readCompleteManifest(modulePath: string): string | undefined {
+        const manifestPath = findManifestFile(modulePath);
+        if (!manifestPath) {
+            return undefined;
+        }
+        try {
+            const content = fs.readFileSync(manifestPath, 'utf8');
+            const manifest = JSON.parse(content);
+            if (!(manifest.id || manifest.name) || !manifest.version) {
+                return undefined;
+            }
+            this.resolveModuleEntryPoint(modulePath, manifest);
+            return content;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Удаление из кэша require всех файлов модуля, чтобы следующая загрузка прочитала код с диска
+     * @param modulePath Путь к директории модуля
+     */
+    private clearRequireCache(modulePath: string): void {
+        const prefix = path.resolve(modulePath) + path.sep;
+        for (const cachedPath of Object.keys(nodeRequire.cache)) {
+            if (cachedPath.startsWith(prefix)) {
+                delete nodeRequire.cache[cachedPath];
+            }
+        }
+    }
+
+    /**
+     * Отключение модуля: модуль выгружается и не загружается при следующих запусках
+     * @param id ID модуля
+     * @param scope Отключить для всех рабочих областей или только для текущей
+     * @param cascade Отключить также модули, зависящие от указанного
+     * @returns ID отключённых модулей
+     */
+    public async disableModule(id: string, scope: ModuleEnablementScope, cascade: boolean = false): Promise<string[]> {
+        return this.runExclusive(async () => {
+            if (!this.modules.has(id)) {
+                throw new Error(`Модуль ${id} не загружен`);
+            }
+
+            const dependents = this.getDependentModules(id);
+            if (dependents.length > 0 && !cascade) {
+                throw new Error(`Модуль ${id} нельзя отключить: от него зависят модули ${dependents.join(', ')}`);
+            }
+
+            const toDisable = [...dependents].reverse().concat(id);
+            for (const moduleId of toDisable) {
+                const metadata = this.listModules().find(module => module.id === moduleId)!;
+                const modulePath = this.modulePaths.get(moduleId);
+
+                await this.unregisterModule(moduleId);
+                disposeModuleLogger(moduleId);
+                await this.stateStore.disable(moduleId, scope);
+                if (modulePath) {
+                    this.disabledModules.set(moduleId, { metadata: { ...metadata, enabled: false }, modulePath });
+                }
+                log.info(`ModuleRegistry: Модуль ${moduleId} отключён (${scope})`);
+            }
+
+            return toDisable;
+        });
+    }
+
+    /**
+     * Включение ранее отключённого модуля и его загрузка
+     * @param id ID модуля
+     */
+    public async enableModule(id: string): Promise<void> {
+        return this.runExclusive(async () => {
+            await this.stateStore.enable(id);
+
+            const disabled = this.disabledModules.get(id);
+            if (!disabled) {
+                log.info(`ModuleRegistry: Модуль ${id} не найден среди отключённых`);
+                return;
+            }
+
+            const disabledDependencies = (disabled.metadata.dependencies || []).filter(dependency => this.disabledModules.has(dependency));
+            if (disabledDependencies.length > 0) {
+                throw new Error(`Модуль ${id} зависит от отключённых модулей: ${disabledDependencies.join(', ')}`);
+            }
+
+            this.disabledModules.delete(id);
+            try {
+                await this.loadExternalModule(disabled.modulePath);
+            } catch (error) {
+                // Модуль включён, но не загрузился; оставляем его в списке, чтобы его можно было найти
+                this.disabledModules.set(id, disabled);
+                throw error;
+            }
+        });
+    }
+
+    /**
+     * Освобождение ресурсов, зарегистрированных модулем
+     * @param id ID модуля
+     */
+    private disposeModuleResources(id: string): void {
+        this.moduleContexts.get(id)?.disposeSubscriptions();
+    }
+
     /**
      * Get a module by ID
      * @param id Module ID
@@ -178,96 +961,142 @@ export class ModuleRegistry implements IModuleRegistry {
      * Get a list of all registered modules
      */
     public listModules(): IModuleMetadata[] {
-        console.log(`ModuleRegistry: Listing modules. Current count: ${this.modules.size}`);
+        log.info(`ModuleRegistry: Listing modules. Current count: ${this.modules.size}`);
 
         const moduleList: IModuleMetadata[] = [];
 
-        if (this.modules.size === 0) {
-            console.log('ModuleRegistry: No modules registered');
-            return moduleList;
-        }
-
         this.modules.forEach((module, id) => {
-            console.log(`ModuleRegistry: Found module ${id} (${module.displayName})`);
+            log.info(`ModuleRegistry: Found module ${id} (${module.displayName})`);
             moduleList.push({
                 id: module.id,
                 version: module.version,
                 displayName: module.displayName,
-                description: module.description
+                description: module.description,
+                dependencies: this.dependencyGraph.getDependencies(module.id),
+                enabled: true,
+                ...this.moduleStatuses.get(module.id)
             });
         });
 
-        console.log(`ModuleRegistry: Returning ${moduleList.length} modules`);
+        this.disabledModules.forEach(({ metadata }) => moduleList.push(metadata));
+
+        log.info(`ModuleRegistry: Returning ${moduleList.length} modules`);
         return moduleList;
     }
 
     /**
-     * Activate all registered modules
+     * Порядок зарегистрированных модулей, в котором зависимости идут раньше зависимых
+     */
+    private getModulesInDependencyOrder(): string[] {
+        return this.dependencyGraph.resolve().order.filter(id => this.modules.has(id));
+    }
+
+    /**
+     * Activate all registered modules in dependency order
      */
     public async activateAllModules(): Promise<void> {
-        for (const [id, module] of this.modules.entries()) {
+        for (const id of this.getModulesInDependencyOrder()) {
+            if (this.moduleStatuses.get(id)?.state === 'active') {
+                continue;
+            }
             try {
-                await module.activate();
-                console.log(`ModuleRegistry: Module ${id} activated`);
+                await this.activateModule(id);
+                log.info(`ModuleRegistry: Module ${id} activated`);
             } catch (error) {
-                console.error(`ModuleRegistry: Error activating module ${id}:`, error);
+                log.error(`ModuleRegistry: Error activating module ${id}:`, error);
             }
         }
     }
 
     /**
-     * Загрузка реестра модулей из репозитория
-     * @returns Промис с реестром модулей
+     * Загрузка реестра модулей из источника
+     * @param source Источник реестра: HTTP(S)-адрес или файл
      */
-    public async fetchModulesRegistry(): Promise<IModulesRegistry> {
-        console.log(`ModuleRegistry: Загрузка реестра модулей из ${this.registryUrl}`);
+    public async fetchModulesRegistry(source: IRegistrySource = DEFAULT_REGISTRY_SOURCE): Promise<IModulesRegistry> {
+        log.info(`ModuleRegistry: Загрузка реестра модулей ${source.name} из ${source.url}`);
 
-        return new Promise<IModulesRegistry>((resolve, reject) => {
-            // Устанавливаем таймаут в 10 секунд
-            const request = https.get(this.registryUrl, { timeout: 10000 }, (response) => {
+        // Реестр в файловой системе (например, в изолированной сети)
+        if (!isRemoteUrl(source.url)) {
+            const registryPath = toLocalPath(source.url);
+            try {
+                const registry = JSON.parse(fs.readFileSync(registryPath, 'utf8')) as IModulesRegistry;
+                log.info(`ModuleRegistry: Успешно загружен реестр ${source.name} с ${registry.modules.length} модулями`);
+                return registry;
+            } catch (error) {
+                throw new Error(`Ошибка чтения реестра модулей ${registryPath}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+
+        // Условный запрос: если реестр не изменился, сервер ответит 304 и используется сохранённая копия
+        const cached = this.moduleCache.getRegistry(source.url);
+        const headers: Record<string, string> = { ...source.headers };
+        if (cached?.etag) {
+            headers['If-None-Match'] = cached.etag;
+        }
+        if (cached?.lastModified) {
+            headers['If-Modified-Since'] = cached.lastModified;
+        }
+
+        try {
+            const fetched = await this.requestModulesRegistry(source, headers);
+            if (!fetched) {
+                log.info(`ModuleRegistry: Реестр ${source.name} не изменился, используется кэш`);
+                return cached!.registry;
+            }
+            this.moduleCache.storeRegistry(source.url, fetched.registry, fetched.etag, fetched.lastModified);
+            return fetched.registry;
+        } catch (error) {
+            if (!cached) {
+                throw error;
+            }
+            log.warn(`ModuleRegistry: Реестр ${source.name} недоступен, используется копия от ${new Date(cached.fetchedAt).toISOString()}`);
+            return cached.registry;
+        }
+    }
+
+    /**
+     * HTTP-запрос индекса реестра
+     * @param source Источник реестра
+     * @param headers Заголовки запроса, включая условные
+     * @returns Реестр и валидаторы ответа или undefined, если реестр не изменился (304)
+     */
+    private requestModulesRegistry(
+        source: IRegistrySource,
+        headers: Record<string, string>
+    ): Promise<{ registry: IModulesRegistry; etag?: string; lastModified?: string } | undefined> {
+        return new Promise((resolve, reject) => {
+            const handleResponse = (response: http.IncomingMessage, redirects: number = 0) => {
                 // Обработка перенаправлений (301, 302, 307, 308)
                 if (response.statusCode === 301 || response.statusCode === 302 ||
                     response.statusCode === 307 || response.statusCode === 308) {
                     const redirectUrl = response.headers.location;
-                    if (redirectUrl) {
-                        console.log(`ModuleRegistry: Перенаправление на: ${redirectUrl}`);
-                        // Следуем за перенаправлением с таймаутом
-                        https.get(redirectUrl, { timeout: 10000 }, (redirectResponse) => {
-                            if (redirectResponse.statusCode !== 200) {
-                                const errorMsg = `Ошибка после перенаправления: ${redirectResponse.statusCode} ${redirectResponse.statusMessage}`;
-                                console.error(`ModuleRegistry: ${errorMsg}`);
+                    if (redirectUrl && redirects < 5) {
+                        response.resume();
+                        const nextUrl = new URL(redirectUrl, source.url).toString();
+                        log.info(`ModuleRegistry: Перенаправление на: ${nextUrl}`);
+                        // Заголовки авторизации передаём только в пределах того же сервера
+                        const redirectHeaders = new URL(nextUrl).origin === new URL(source.url).origin ? headers : {};
+                        this.getHttpClient()
+                            .get(nextUrl, { timeout: 10000, headers: redirectHeaders }, (redirectResponse) => handleResponse(redirectResponse, redirects + 1))
+                            .on('error', (error) => {
+                                const errorMsg = `Ошибка при следовании за перенаправлением: ${error.message}`;
+                                log.error(`ModuleRegistry: ${errorMsg}`);
                                 reject(new Error(errorMsg));
-                                return;
-                            }
-
-                            let data = '';
-                            redirectResponse.on('data', (chunk) => {
-                                data += chunk;
                             });
-
-                            redirectResponse.on('end', () => {
-                                try {
-                                    const registry = JSON.parse(data) as IModulesRegistry;
-                                    console.log(`ModuleRegistry: Успешно загружен реестр с ${registry.modules.length} модулями`);
-                                    resolve(registry);
-                                } catch (error) {
-                                    const errorMsg = `Ошибка парсинга реестра модулей: ${error}`;
-                                    console.error(`ModuleRegistry: ${errorMsg}`);
-                                    reject(new Error(errorMsg));
-                                }
-                            });
-                        }).on('error', (error) => {
-                            const errorMsg = `Ошибка при следовании за перенаправлением: ${error.message}`;
-                            console.error(`ModuleRegistry: ${errorMsg}`);
-                            reject(new Error(errorMsg));
-                        });
                         return;
                     }
                 }
 
+                if (response.statusCode === 304) {
+                    response.resume();
+                    resolve(undefined);
+                    return;
+                }
+
                 if (response.statusCode !== 200) {
+                    response.resume();
                     const errorMsg = `Ошибка загрузки реестра модулей: ${response.statusCode} ${response.statusMessage}`;
-                    console.error(`ModuleRegistry: ${errorMsg}`);
+                    log.error(`ModuleRegistry: ${errorMsg}`);
                     reject(new Error(errorMsg));
                     return;
                 }
@@ -280,25 +1109,33 @@ export class ModuleRegistry implements IModuleRegistry {
                 response.on('end', () => {
                     try {
                         const registry = JSON.parse(data) as IModulesRegistry;
-                        console.log(`ModuleRegistry: Успешно загружен реестр с ${registry.modules.length} модулями`);
-                        resolve(registry);
+                        log.info(`ModuleRegistry: Успешно загружен реестр ${source.name} с ${registry.modules.length} модулями`);
+                        resolve({
+                            registry,
+                            etag: response.headers.etag,
+                            lastModified: response.headers['last-modified']
+                        });
                     } catch (error) {
                         const errorMsg = `Ошибка парсинга реестра модулей: ${error}`;
-                        console.error(`ModuleRegistry: ${errorMsg}`);
+                        log.error(`ModuleRegistry: ${errorMsg}`);
                         reject(new Error(errorMsg));
                     }
                 });
-            });
+            };
+
+            // Устанавливаем таймаут в 10 секунд
+            const request = this.getHttpClient()
+                .get(source.url, { timeout: 10000, headers }, (response) => handleResponse(response));
 
             request.on('error', (error) => {
                 const errorMsg = `Ошибка загрузки реестра модулей: ${error.message}`;
-                console.error(`ModuleRegistry: ${errorMsg}`);
+                log.error(`ModuleRegistry: ${errorMsg}`);
                 reject(new Error(errorMsg));
             });
 
             // Устанавливаем таймаут на уровне запроса
             request.setTimeout(10000, () => {
-                console.error('ModuleRegistry: Таймаут запроса при загрузке реестра модулей');
+                log.error('ModuleRegistry: Таймаут запроса при загрузке реестра модулей');
                 reject(new Error('Таймаут запроса при загрузке реестра модулей'));
                 request.destroy();
             });
@@ -307,6 +1144,74 @@ export class ModuleRegistry implements IModuleRegistry {
         });
     }
 
+    /**
+     * Очистка кэша индексов реестров и архивов модулей. Выполняется в очереди операций,
+     * чтобы не удалить архив, который читает выполняющаяся установка.
+     * @returns Освобождённый объём в байтах
+     */
+    public async clearCache(): Promise<number> {
+        return this.runExclusive(async () => this.moduleCache.clear());
+    }
+
+    /**
+     * HTTP-клиент с текущими настройками прокси и сертификатов IDE
+     */
+    private getHttpClient(): HttpClient {
+        if (this.customHttpClient) {
+            return this.customHttpClient;
+        }
+        if (!this.httpClient) {
+            this.httpClient = this.createHttpClient();
+        }
+        return this.httpClient;
+    }
+
+    /**
+     * Создание HTTP-клиента по настройкам http.proxy, http.proxyStrictSSL, http.noProxy,
+     * переменным окружения прокси и дополнительным сертификатам УЦ
+     */
+    private createHttpClient(): HttpClient {
+        const httpConfig = vscode.workspace.getConfiguration('http');
+        const env = process.env;
+
+        const proxy = httpConfig.get<string>('proxy') || env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy || undefined;
+        const noProxy = [
+            ...httpConfig.get<string[]>('noProxy', []),
+            ...(env.NO_PROXY || env.no_proxy || '').split(',')
+        ];
+
+        // Явный список УЦ заменяет тот, что Node.js загрузил при запуске, поэтому учитываем и NODE_EXTRA_CA_CERTS
+        const caFiles = [...vscode.workspace.getConfiguration('modularKb.network').get<string[]>('caCertificates', [])];
+        if (env.NODE_EXTRA_CA_CERTS) {
+            caFiles.push(env.NODE_EXTRA_CA_CERTS);
+        }
+        const ca: string[] = [];
+        for (const caFile of caFiles) {
+            try {
+                ca.push(fs.readFileSync(caFile, 'utf8'));
+            } catch (error) {
+                log.warn(`ModuleRegistry: Не удалось прочитать сертификат ${caFile}:`, error);
+            }
+        }
+
+        log.info(`ModuleRegistry: HTTP-клиент: прокси ${proxy ? 'настроен' : 'не используется'}, дополнительных сертификатов: ${ca.length}`);
+        return new HttpClient({
+            proxy,
+            strictSSL: httpConfig.get<boolean>('proxyStrictSSL', true),
+            noProxy,
+            ca,
+            userAgent: `modular-kb-vscode/${this.hostVersion}`
+        });
+    }
+
+    /**
+     * Источники реестра модулей из настройки modularKb.registries в порядке приоритета
+     */
+    private getRegistrySources(): IRegistrySource[] {
+        const sources = readRegistrySources(vscode.workspace.getConfiguration('modularKb').get('registries'));
+        return sources.length > 0 ? sources : [DEFAULT_REGISTRY_SOURCE];
+    }
+
     /**
      * Получение списка доступных для установки модулей
      * @returns Список модулей, которые можно установить
@@ -314,56 +1219,516 @@ export class ModuleRegistry implements IModuleRegistry {
     public async getAvailableModules(): Promise<IModuleRegistryItem[]> {
         try {
             // Загружаем реестр модулей
-            let registry: IModulesRegistry;
+            const registry = await this.loadModulesRegistry();
+
+            // Получаем список уже установленных модулей
+            const installedVersions = this.getInstalledVersions();
 
+            // Зависимость считается доступной, если она установлена или есть в реестре
+            const availableVersions = new Map<string, string>();
+            for (const item of registry.modules) {
+                availableVersions.set(item.id, item.version);
+            }
+            installedVersions.forEach((version, id) => availableVersions.set(id, version));
+
+            // Фильтруем список, исключая уже установленные модули, и помечаем несовместимые
+            return registry.modules
+                .filter(module => !installedVersions.has(module.id))
+                .map(module => {
+                    const requirements = readModuleRequirements({ moduleDependencies: module.dependencies, engines: module.engines });
+                    const reasons = checkModuleRequirements(requirements, this.hostVersion, availableVersions);
+                    return { ...module, compatible: reasons.length === 0, incompatibilityReasons: reasons };
+                });
+        } catch (error) {
+            log.error('ModuleRegistry: Error getting available modules:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Загрузка и объединение реестров из всех настроенных источников.
+     * Если ни один источник недоступен, используется локальный файл modules-build.
+     */
+    private async loadModulesRegistry(): Promise<IModulesRegistry> {
+        const sources = this.getRegistrySources();
+        const results = await Promise.all(sources.map(async source => {
             try {
-                // Сначала пытаемся загрузить с GitHub
-                registry = await this.fetchModulesRegistry();
+                return { source, registry: await this.fetchModulesRegistry(source) };
             } catch (error) {
-                console.warn('ModuleRegistry: Не удалось загрузить реестр с GitHub, пробуем использовать локальный файл', error);
+                log.warn(`ModuleRegistry: Не удалось загрузить реестр ${source.name}:`, error);
+                return undefined;
+            }
+        }));
+        const fetched = results.filter((result): result is { source: IRegistrySource; registry: IModulesRegistry } => result !== undefined);
+        if (fetched.length > 0) {
+            return mergeRegistries(fetched);
+        }
 
-                // Пробуем загрузить локальный файл реестра для тестирования
-                const localRegistryPath = path.join(this.context.extensionPath, '..', 'modules-build', 'modules-registry.json');
+        // Пробуем загрузить локальный файл реестра для тестирования
+        const localRegistryPath = path.join(this.context.extensionPath, '..', 'modules-build', 'modules-registry.json');
+        log.info(`ModuleRegistry: Попытка загрузить локальный файл реестра из ${localRegistryPath}`);
+        if (!fs.existsSync(localRegistryPath)) {
+            log.error(`ModuleRegistry: Локальный файл реестра не найден: ${localRegistryPath}`);
+            throw new Error('Не удалось загрузить реестр модулей ни из одного источника, ни из локального файла');
+        }
 
-                try {
-                    console.log(`ModuleRegistry: Попытка загрузить локальный файл реестра из ${localRegistryPath}`);
+        try {
+            const localSource: IRegistrySource = { name: 'modules-build', url: localRegistryPath };
+            return mergeRegistries([{ source: localSource, registry: await this.fetchModulesRegistry(localSource) }]);
+        } catch (localError) {
+            log.error('ModuleRegistry: Ошибка при загрузке локального файла реестра:', localError);
+            throw new Error('Не удалось загрузить реестр модулей ни из одного источника, ни из локального файла');
+        }
+    }
 
-                    if (fs.existsSync(localRegistryPath)) {
-                        const registryContent = fs.readFileSync(localRegistryPath, 'utf8');
-                        registry = JSON.parse(registryContent) as IModulesRegistry;
-                        console.log(`ModuleRegistry: Успешно загружен локальный реестр с ${registry.modules.length} модулями`);
-                    } else {
-                        console.error(`ModuleRegistry: Локальный файл реестра не найден: ${localRegistryPath}`);
-                        throw new Error('Не удалось загрузить реестр модулей ни с GitHub, ни из локального файла');
+    /**
+     * Установка или обновление модуля из реестра через ZIP-архив с проверкой целостности
+     * @param item Описание модуля в реестре
+     * @param moduleName Имя директории модуля
+     * @param options Отмена и прогресс загрузки
+     */
+    private async installRegistryItem(item: IModuleRegistryItem, moduleName: string, options: IModuleInstallOptions = {}): Promise<void> {
+        const source = this.getRegistrySources().find(registrySource => registrySource.name === item.source);
+        await this.installModuleFromZip(item.downloadUrl, moduleName, {
+            sha256: item.sha256,
+            signature: item.signature,
+            publisher: item.publisher
+        }, { ...options, registry: item.source, headers: { ...getDownloadHeaders(source, item.downloadUrl), ...options.headers } });
+    }
+
+    /**
+     * Версии установленных модулей, включая отключённые
+     * @returns ID модуля -> версия и директория модуля
+     */
+    private getInstalledModuleDirectories(): Map<string, { version: string; modulePath: string }> {
+        const installed = new Map<string, { version: string; modulePath: string }>();
+        this.modules.forEach((module, id) => {
+            const modulePath = this.modulePaths.get(id);
+            if (modulePath) {
+                installed.set(id, { version: module.version, modulePath });
+            }
+        });
+        this.disabledModules.forEach(({ metadata, modulePath }, id) => installed.set(id, { version: metadata.version, modulePath }));
+        return installed;
+    }
+
+    /**
+     * Поиск обновлений установленных модулей: версии сравниваются с реестром по semver
+     * @returns Модули, для которых в реестре есть более новая версия
+     */
+    public async checkForUpdates(): Promise<IModuleUpdate[]> {
+        return this.findModuleUpdates(await this.loadModulesRegistry());
+    }
+
+    /**
+     * Сравнение версий установленных модулей с реестром
+     * @param registry Реестр модулей
+     */
+    private findModuleUpdates(registry: IModulesRegistry): IModuleUpdate[] {
+        const installed = this.getInstalledModuleDirectories();
+
+        const newer = registry.modules.filter(item => {
+            const current = installed.get(item.id);
+            return current !== undefined
+                && semver.valid(item.version) !== null
+                && semver.valid(current.version) !== null
+                && semver.gt(item.version, current.version);
+        });
+
+        const newerItems = new Map(newer.map(item => [item.id, item]));
+        const installedVersions = new Map<string, string>();
+        installed.forEach(({ version }, id) => installedVersions.set(id, version));
+        const satisfies = (dependency: string, range: string, version: string) =>
+            checkModuleRequirements({ dependencies: { [dependency]: range } }, this.hostVersion, new Map([[dependency, version]])).length === 0;
+
+        // Обновления зависимостей, которые нужны новой версии модуля: установленная версия
+        // зависимости не подходит, а версия из реестра подходит
+        const directlyRequired = new Map(newer.map(item => [
+            item.id,
+            Object.entries(readDependencyRanges({ moduleDependencies: item.dependencies }))
+                .filter(([dependency, range]) => {
+                    const candidate = newerItems.get(dependency);
+                    const current = installedVersions.get(dependency);
+                    return candidate !== undefined && current !== undefined
+                        && !satisfies(dependency, range, current) && satisfies(dependency, range, candidate.version);
+                })
+                .map(([dependency]) => dependency)
+        ]));
+        const collectRequired = (id: string, required: Set<string>) => {
+            for (const dependency of directlyRequired.get(id) ?? []) {
+                if (dependency !== id && !required.has(dependency)) {
+                    required.add(dependency);
+                    collectRequired(dependency, required);
+                }
+            }
+        };
+
+        return newer.map(item => {
+            const requiredUpdates = new Set<string>();
+            collectRequired(item.id, requiredUpdates);
+            requiredUpdates.delete(item.id);
+
+            // Зависимости проверяются по установленным версиям и версиям обновлений, устанавливаемых вместе с модулем
+            const availableVersions = new Map(installedVersions);
+            requiredUpdates.forEach(id => availableVersions.set(id, newerItems.get(id)!.version));
+            availableVersions.set(item.id, item.version);
+
+            const requirements = readModuleRequirements({ moduleDependencies: item.dependencies, engines: item.engines });
+            const reasons = checkModuleRequirements(requirements, this.hostVersion, availableVersions);
+            return {
+                id: item.id,
+                displayName: item.displayName || item.id,
+                currentVersion: installed.get(item.id)!.version,
+                latestVersion: item.version,
+                source: item.source,
+                compatible: reasons.length === 0,
+                incompatibilityReasons: reasons,
+                requiredUpdates: [...requiredUpdates]
+            };
+        });
+    }
+
+    /**
+     * Обновление модулей до версий из реестра. Обновления зависимостей, без которых новые версии
+     * несовместимы, добавляются к выбранным модулям. Зависимости обновляются раньше зависящих
+     * от них модулей; если обновление зависимости не удалось, зависящие модули пропускаются.
+     * @param ids ID модулей для обновления
+     * @param onProgress Вызывается перед обновлением каждого модуля
+     * @param options Отмена и прогресс загрузки архивов
+     * @returns Обновлённые модули и ошибки
+     */
+    public async updateModules(
+        ids: string[],
+        onProgress?: (id: string, index: number, total: number) => void,
+        options: IModuleInstallOptions = {}
+    ): Promise<IModuleUpdateResult> {
+        return this.runExclusive(async () => {
+            const result: IModuleUpdateResult = { updated: [], failed: [], addedDependencies: [] };
+            const registry = await this.loadModulesRegistry();
+            const updates = new Map(this.findModuleUpdates(registry).map(update => [update.id, update]));
+            const items = new Map(registry.modules.map(item => [item.id, item]));
+            const installed = this.getInstalledModuleDirectories();
+
+            // Обновления зависимостей, без которых выбранные модули несовместимы, выполняются вместе с ними
+            const selected = new Set(ids);
+            for (const id of ids) {
+                for (const dependency of updates.get(id)?.requiredUpdates ?? []) {
+                    if (!selected.has(dependency)) {
+                        selected.add(dependency);
+                        result.addedDependencies.push(dependency);
                     }
-                } catch (localError) {
-                    console.error('ModuleRegistry: Ошибка при загрузке локального файла реестра:', localError);
-                    throw new Error('Не удалось загрузить реестр модулей ни с GitHub, ни из локального файла');
                 }
             }
 
-            // Получаем список уже установленных модулей
-            const installedModuleIds = Array.from(this.modules.keys());
+            // Порядок обновления строим по новым зависимостям обновляемых модулей
+            const graph = new DependencyGraph();
+            installed.forEach((_, id) => graph.addModule(id, this.dependencyGraph.getDependencies(id)));
+            for (const id of selected) {
+                const item = items.get(id);
+                if (item) {
+                    graph.addModule(id, Object.keys(readDependencyRanges({ moduleDependencies: item.dependencies })));
+                }
+            }
+            const resolution = graph.resolve();
+
+            const order = resolution.order.filter(id => selected.has(id));
+            for (const id of selected) {
+                const reason = resolution.blocked.get(id);
+                if (reason) {
+                    result.failed.push(`${id}: ${reason}`);
+                } else if (!updates.has(id)) {
+                    result.failed.push(`${id}: обновление не найдено в реестре`);
+                }
+            }
 
-            // Фильтруем список, исключая уже установленные модули
-            return registry.modules.filter(module => !installedModuleIds.includes(module.id));
-        } catch (error) {
-            console.error('ModuleRegistry: Error getting available modules:', error);
-            throw error;
+            const failed = new Set<string>();
+            for (const [index, id] of order.entries()) {
+                const update = updates.get(id);
+                const item = items.get(id);
+                const current = installed.get(id);
+                if (!update || !item || !current) {
+                    continue;
+                }
+
+                const failedDependency = graph.getDependencies(id).find(dependency => failed.has(dependency));
+                if (failedDependency) {
+                    failed.add(id);
+                    result.failed.push(`${id}: не удалось обновить зависимость ${failedDependency}`);
+                    continue;
+                }
+                if (!update.compatible) {
+                    failed.add(id);
+                    result.failed.push(`${id}: ${update.incompatibilityReasons.join('; ')}`);
+                    continue;
+                }
+
+                if (options.token?.isCancellationRequested) {
+                    result.failed.push(`${id}: обновление отменено`);
+                    continue;
+                }
+
+                onProgress?.(id, index, order.length);
+                log.info(`ModuleRegistry: Обновление модуля ${id} с ${update.currentVersion} до ${update.latestVersion}`);
+                try {
+                    await this.installRegistryItem(item, path.basename(current.modulePath), options);
+                    result.updated.push(id);
+                } catch (error) {
+                    failed.add(id);
+                    result.failed.push(`${id}: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+
+            return result;
+        });
+    }
+
+    /**
+     * Установка модуля из реестра вместе с его неустановленными зависимостями.
+     * Зависимости устанавливаются первыми; модули загружаются сразу, без перезапуска IDE.
+     * @param id ID модуля в реестре
+     * @param onProgress Вызывается перед установкой каждого модуля
+     * @param options Отмена и прогресс загрузки архивов
+     * @returns ID установленных модулей в порядке установки
+     */
+    public async installModuleFromRegistry(
+        id: string,
+        onProgress?: (id: string, index: number, total: number) => void,
+        options: IModuleInstallOptions = {}
+    ): Promise<string[]> {
+        return this.runExclusive(async () => {
+            const installed = this.getInstalledModuleDirectories();
+            if (installed.has(id)) {
+                throw new Error(`Модуль ${id} уже установлен`);
+            }
+
+            const registry = await this.loadModulesRegistry();
+            const items = new Map(registry.modules.map(item => [item.id, item]));
+
+            // Собираем модуль и все его неустановленные зависимости из реестра
+            const graph = new DependencyGraph();
+            installed.forEach((_, moduleId) => graph.addModule(moduleId, this.dependencyGraph.getDependencies(moduleId)));
+            const toInstall = new Set<string>();
+            const pending = [id];
+            while (pending.length > 0) {
+                const moduleId = pending.pop()!;
+                if (toInstall.has(moduleId) || installed.has(moduleId)) {
+                    continue;
+                }
+                const item = items.get(moduleId);
+                if (!item) {
+                    throw new Error(moduleId === id
+                        ? `Модуль ${id} не найден в реестре`
+                        : `Зависимость ${moduleId} модуля ${id} не найдена в реестре`);
+                }
+                const dependencies = Object.keys(readDependencyRanges({ moduleDependencies: item.dependencies }));
+                graph.addModule(moduleId, dependencies);
+                toInstall.add(moduleId);
+                pending.push(...dependencies);
+            }
+
+            const resolution = graph.resolve();
+            const blockedReason = resolution.blocked.get(id);
+            if (blockedReason) {
+                throw new Error(`Модуль ${id} нельзя установить: ${blockedReason}`);
+            }
+
+            // Проверяем совместимость всех устанавливаемых модулей до начала установки
+            const availableVersions = new Map<string, string>();
+            installed.forEach(({ version }, moduleId) => availableVersions.set(moduleId, version));
+            toInstall.forEach(moduleId => availableVersions.set(moduleId, items.get(moduleId)!.version));
+            for (const moduleId of toInstall) {
+                const item = items.get(moduleId)!;
+                const requirements = readModuleRequirements({ moduleDependencies: item.dependencies, engines: item.engines });
+                const reasons = checkModuleRequirements(requirements, this.hostVersion, availableVersions);
+                if (reasons.length > 0) {
+                    throw new Error(`Модуль ${moduleId} несовместим: ${reasons.join('; ')}`);
+                }
+            }
+
+            const order = resolution.order.filter(moduleId => toInstall.has(moduleId));
+            const installedIds: string[] = [];
+            for (const [index, moduleId] of order.entries()) {
+                const item = items.get(moduleId)!;
+                this.throwIfCancelled(options.token);
+                onProgress?.(moduleId, index, order.length);
+                log.info(`ModuleRegistry: Установка модуля ${moduleId} ${item.version} из реестра`);
+                await this.installRegistryItem(item, moduleId, options);
+                installedIds.push(moduleId);
+            }
+
+            return installedIds;
+        });
+    }
+
+    /**
+     * Путь к lock-файлу модулей в первой папке рабочей области
+     * @returns Путь или undefined, если рабочая область не открыта
+     */
+    public getLockfilePath(): string | undefined {
+        const workspaceRoot = this.getWorkspaceRoot();
+        return workspaceRoot ? path.join(workspaceRoot, LOCKFILE_PATH) : undefined;
+    }
+
+    /**
+     * Корень рабочей области: первая папка рабочей области
+     */
+    private getWorkspaceRoot(): string | undefined {
+        return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    }
+
+    /**
+     * Установленные модули с версиями, зависимостями и сведениями об установке
+     */
+    private getInstalledModuleStates(): Map<string, IInstalledModuleState> {
+        const states = new Map<string, IInstalledModuleState>();
+        this.getInstalledModuleDirectories().forEach(({ version, modulePath }, id) => {
+            states.set(id, {
+                version,
+                directory: path.basename(modulePath),
+                dependencies: this.modules.has(id)
+                    ? this.dependencyGraph.getDependencies(id)
+                    : this.disabledModules.get(id)?.metadata.dependencies ?? [],
+                install: readInstallInfo(modulePath)
+            });
+        });
+        return states;
+    }
+
+    /**
+     * Создание lock-файла рабочей области по установленным модулям
+     * @returns Записанный lock-файл
+     */
+    public generateLockfile(): IModuleLockfile {
+        const lockfilePath = this.getLockfilePath();
+        if (!lockfilePath) {
+            throw new Error('Откройте папку рабочей области, чтобы создать lock-файл модулей');
         }
+
+        const lockfile = createLockfile(this.getInstalledModuleStates(), this.getWorkspaceRoot());
+        writeLockfile(lockfilePath, lockfile);
+        log.info(`ModuleRegistry: Lock-файл модулей записан в ${lockfilePath}: ${Object.keys(lockfile.modules).length} модулей`);
+        return lockfile;
     }
 
     /**
-     * Deactivate all registered modules
+     * Отличия установленных модулей от lock-файла рабочей области
+     * @returns Отличия или undefined, если lock-файла нет
      */
-    public async deactivateAllModules(): Promise<void> {
-        for (const [id, module] of this.modules.entries()) {
-            try {
-                await module.deactivate();
-                console.log(`ModuleRegistry: Module ${id} deactivated`);
-            } catch (error) {
-                console.error(`ModuleRegistry: Error deactivating module ${id}:`, error);
+    public getLockfileDiff(): ILockfileDiff | undefined {
+        const lockfilePath = this.getLockfilePath();
+        const lockfile = lockfilePath ? readLockfile(lockfilePath) : undefined;
+        return lockfile ? diffLockfile(lockfile, this.getInstalledModuleStates()) : undefined;
+    }
+
+    /**
+     * Приведение установленных модулей к lock-файлу рабочей области: лишние модули удаляются,
+     * недостающие устанавливаются, модули других версий заменяются зафиксированными.
+     * Архивы загружаются по адресам из lock-файла и проверяются по их SHA-256.
+     * @param onProgress Вызывается перед установкой каждого модуля
+     * @param options Отмена и прогресс загрузки архивов
+     * @returns Установленные и удалённые модули и ошибки
+     */
+    public async syncModulesFromLockfile(
+        onProgress?: (id: string, index: number, total: number) => void,
+        options: IModuleInstallOptions = {}
+    ): Promise<ILockfileSyncResult> {
+        return this.runExclusive(async () => {
+            const lockfilePath = this.getLockfilePath();
+            const lockfile = lockfilePath ? readLockfile(lockfilePath) : undefined;
+            if (!lockfile) {
+                throw new Error(`Lock-файл модулей ${LOCKFILE_PATH} не найден в рабочей области`);
             }
+
+            const result: ILockfileSyncResult = { installed: [], removed: [], failed: [] };
+            const installed = this.getInstalledModuleStates();
+            const diff = diffLockfile(lockfile, installed);
+
+            // Лишние модули удаляем, начиная с последних в порядке загрузки, чтобы не мешали зависимости
+            const loadOrder = this.getModulesInDependencyOrder();
+            const toRemove = [...diff.remove].sort((a, b) => loadOrder.indexOf(b) - loadOrder.indexOf(a));
+            for (const id of toRemove) {
+                try {
+                    await this.uninstallModule(id);
+                    result.removed.push(id);
+                } catch (error) {
+                    result.failed.push(`${id}: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+
+            // Зависимости устанавливаются раньше зависящих от них модулей
+            const graph = new DependencyGraph();
+            for (const [id, locked] of Object.entries(lockfile.modules)) {
+                graph.addModule(id, locked.dependencies ?? []);
+            }
+            const resolution = graph.resolve();
+
+            const changed = new Set([...diff.install, ...diff.update]);
+            for (const id of changed) {
+                const reason = resolution.blocked.get(id);
+                if (reason) {
+                    result.failed.push(`${id}: ${reason}`);
+                }
+            }
+
+            const failed = new Set<string>();
+            const order = resolution.order.filter(id => changed.has(id));
+            for (const [index, id] of order.entries()) {
+                const locked = lockfile.modules[id];
+                const failedDependency = graph.getDependencies(id).find(dependency => failed.has(dependency));
+                if (failedDependency) {
+                    failed.add(id);
+                    result.failed.push(`${id}: не удалось установить зависимость ${failedDependency}`);
+                    continue;
+                }
+                if (options.token?.isCancellationRequested) {
+                    result.failed.push(`${id}: синхронизация отменена`);
+                    continue;
+                }
+
+                onProgress?.(id, index, order.length);
+                log.info(`ModuleRegistry: Установка модуля ${id} ${locked.version} по lock-файлу`);
+                try {
+                    const resolved = resolveLockedSource(locked, this.getWorkspaceRoot()!);
+                    if (!locked.type || !resolved) {
+                        throw new Error(locked.type === 'file'
+                            ? 'модуль установлен из локального архива вне рабочей области и не может быть установлен по lock-файлу'
+                            : 'в lock-файле не указан источник модуля');
+                    }
+                    const moduleName = installed.get(id)?.directory ?? locked.directory ?? id;
+                    if (locked.type === 'git') {
+                        await this.loadModuleFromGitHub(resolved);
+                    } else {
+                        const registry = locked.type === 'registry' ? locked.registry : undefined;
+                        const source = this.getRegistrySources().find(registrySource => registrySource.name === registry);
+                        await this.installModuleFromZip(resolved, moduleName, { sha256: locked.sha256 }, {
+                            ...options,
+                            registry,
+                            headers: { ...getDownloadHeaders(source, resolved), ...options.headers }
+                        });
+                    }
+
+                    // Без SHA-256 по тому же адресу может оказаться другая версия
+                    const installedVersion = this.getInstalledModuleDirectories().get(id)?.version;
+                    if (installedVersion !== locked.version) {
+                        throw new Error(`установлена версия ${installedVersion ?? 'с другим ID'} вместо ${locked.version}`);
+                    }
+                    result.installed.push(id);
+                } catch (error) {
+                    failed.add(id);
+                    result.failed.push(`${id}: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+
+            return result;
+        });
+    }
+
+    /**
+     * Deactivate all registered modules in reverse dependency order
+     */
+    public async deactivateAllModules(): Promise<void> {
+        for (const id of this.getModulesInDependencyOrder().reverse()) {
+            await this.deactivateModule(id);
         }
     }
 
@@ -373,251 +1738,314 @@ export class ModuleRegistry implements IModuleRegistry {
      */
     public async loadExternalModule(modulePath: string): Promise<void> {
         try {
-            logToFile(`ДИАГНОСТИКА: Начало загрузки внешнего модуля из ${modulePath}`);
+            log.debug(`ModuleRegistry: Начало загрузки внешнего модуля из ${modulePath}`);
 
             // Проверяем существование директории
             if (!fs.existsSync(modulePath)) {
                 const errorMsg = `Директория модуля не существует: ${modulePath}`;
-                logToFile(`ОШИБКА: ${errorMsg}`);
+                log.error(`ModuleRegistry: ${errorMsg}`);
                 throw new Error(errorMsg);
             } else {
-                logToFile(`ДИАГНОСТИКА: Директория модуля существует: ${modulePath}`);
+                log.debug(`ModuleRegistry: Директория модуля существует: ${modulePath}`);
 
                 // Выводим список файлов в директории модуля
                 try {
                     const files = fs.readdirSync(modulePath);
-                    logToFile(`ДИАГНОСТИКА: Содержимое директории модуля:`);
+                    log.debug(`ModuleRegistry: Содержимое директории модуля:`);
                     for (const file of files) {
                         const filePath = path.join(modulePath, file);
                         const stats = fs.statSync(filePath);
-                        logToFile(`  - ${file} [${stats.isDirectory() ? 'Директория' : 'Файл'}]`);
+                        log.debug(`  - ${file} [${stats.isDirectory() ? 'Директория' : 'Файл'}]`);
                     }
                 } catch (e) {
-                    logToFile(`ОШИБКА при чтении содержимого директории модуля: ${e}`);
+                    log.error(`ModuleRegistry: Ошибка при чтении содержимого директории модуля:`, e);
                 }
             }
 
-            // Проверяем наличие package.json
-            const packageJsonPath = path.join(modulePath, 'package.json');
-            if (!fs.existsSync(packageJsonPath)) {
-                const errorMsg = `Файл package.json не найден в: ${packageJsonPath}`;
-                logToFile(`ОШИБКА: ${errorMsg}`);
-                throw new Error(errorMsg);
-            } else {
-                logToFile(`ДИАГНОСТИКА: Найден package.json: ${packageJsonPath}`);
-            }
-
-            // Загружаем package.json
-            logToFile(`ДИАГНОСТИКА: Чтение файла package.json: ${packageJsonPath}`);
-            let packageJsonContent;
+            // Читаем манифест (module.json или package.json) и проверяем его по схеме
+            let manifestFile;
             try {
-                packageJsonContent = fs.readFileSync(packageJsonPath, 'utf8');
-                logToFile(`ДИАГНОСТИКА: Успешно прочитан файл package.json, размер: ${packageJsonContent.length} байт`);
+                manifestFile = readModuleManifest(modulePath);
             } catch (e) {
-                const errorMsg = `Ошибка при чтении package.json: ${e}`;
-                logToFile(`ОШИБКА: ${errorMsg}`);
-                throw new Error(errorMsg);
+                log.error(`ModuleRegistry: ${e instanceof Error ? e.message : e}`);
+                throw e;
             }
-
-            let modulePkg;
-            try {
-                modulePkg = JSON.parse(packageJsonContent);
-                logToFile(`ДИАГНОСТИКА: Успешно распарсен package.json`);
-                logToFile(`ДИАГНОСТИКА: Данные модуля: id=${modulePkg.id || 'не задан'}, name=${modulePkg.name || 'не задано'}, version=${modulePkg.version || 'не задана'}`);
-
-                // Проверяем наличие команд
-                if (modulePkg.contributes && modulePkg.contributes.commands) {
-                    logToFile(`ДИАГНОСТИКА: Найдено команд в модуле: ${modulePkg.contributes.commands.length}`);
-                    for (const cmd of modulePkg.contributes.commands) {
-                        logToFile(`ДИАГНОСТИКА:   - Команда: ${cmd.command}, Название: ${cmd.title}`);
-                    }
-                } else {
-                    logToFile(`ДИАГНОСТИКА: В модуле не найдены команды`);
+            const modulePkg = manifestFile.manifest;
+            const manifestContent = manifestFile.content;
+            log.debug(`ModuleRegistry: Используется манифест ${manifestFile.filePath}`);
+            log.debug(`ModuleRegistry: Данные модуля: id=${modulePkg.id || 'не задан'}, name=${modulePkg.name || 'не задано'}, version=${modulePkg.version}`);
+
+            // Проверяем наличие команд
+            if (modulePkg.contributes && modulePkg.contributes.commands) {
+                log.debug(`ModuleRegistry: Найдено команд в модуле: ${modulePkg.contributes.commands.length}`);
+                for (const cmd of modulePkg.contributes.commands) {
+                    log.debug(`ModuleRegistry: - Команда: ${cmd.command}, Название: ${cmd.title}`);
                 }
-            } catch (e) {
-                const error = e as Error;
-                const errorMsg = `Ошибка при парсинге package.json: ${error.message}`;
-                logToFile(`ОШИБКА: ${errorMsg}`);
-                throw new Error(errorMsg);
-            }
-
-            // Создаем модуль вручную на основе данных из package.json
-            logToFile(`ДИАГНОСТИКА: Создание экземпляра модуля на основе package.json`);
-
-            // Здесь добавим проверку имени модуля
-            const moduleId = modulePkg.id || modulePkg.name || 'external-module';
-            const moduleName = modulePkg.name || 'external-module';
-
-            // Дополнительная проверка для модуля Core
-            if (moduleName === 'kb-core' || moduleId === 'kb-core' || modulePath.includes('kb-core')) {
-                logToFile(`ДИАГНОСТИКА: Обнаружен модуль kb-core! Путь: ${modulePath}, Имя: ${moduleName}, ID: ${moduleId}`);
-                // Проверяем наличие KB.Orchestrator.dll в директории модуля
-                const dllPath = path.join(modulePath, 'KB.Orchestrator.dll');
-                if (fs.existsSync(dllPath)) {
-                    logToFile(`ДИАГНОСТИКА: Найден файл KB.Orchestrator.dll: ${dllPath}`);
-                } else {
-                    logToFile(`ОШИБКА: В модуле kb-core не найден файл KB.Orchestrator.dll: ${dllPath}`);
-                }
-            }
-
-            const moduleInstance: IModule = {
-                id: moduleId,
-                version: modulePkg.version || '1.0.0',
-                displayName: modulePkg.displayName || modulePkg.name || 'External Module',
-                description: modulePkg.description || 'External module for Modular KB',
-
-                // Реализуем методы интерфейса IModule
-                initialize: async (context: vscode.ExtensionContext, registry: IModuleRegistry) => {
-                    console.log(`ModuleRegistry: Инициализация модуля ${moduleInstance.id}`);
-                    // Здесь можно добавить код инициализации, если необходимо
-                },
-
-                activate: async () => {
-                    console.log(`ModuleRegistry: Активация модуля ${moduleInstance.id}`);
-                    // Здесь можно добавить код активации, если необходимо
-
-                    // Регистрируем команды или другие функции модуля
-                    if (modulePkg.contributes && modulePkg.contributes.commands) {
-                        console.log(`ModuleRegistry: Модуль ${moduleInstance.id} имеет ${modulePkg.contributes.commands.length} команд`);
-
-                        // Регистрируем каждую команду из package.json модуля
-                        for (const commandDef of modulePkg.contributes.commands) {
-                            try {
-                                if (commandDef.command && commandDef.title) {
-                                    console.log(`ModuleRegistry: Регистрация команды ${commandDef.command}`);
-
-                                    // Регистрируем команду
-                                    const command = vscode.commands.registerCommand(commandDef.command, async () => {
-                                        console.log(`Выполнена команда модуля: ${commandDef.command}`);
-
-                                        // Если это команда запуска Core
-                                        if (commandDef.command === 'kb.startCore') {
-                                            console.log('ModuleRegistry: Запуск Core...');
+            } else {
+                log.debug(`ModuleRegistry: В модуле не найдены команды`);
+            }
 
-                                            // Создаем экземпляр CoreManager для работы с модулем
-                                            const coreManager = new CoreManager(this.context);
+            const moduleId = getManifestId(modulePkg);
 
-                                            // Вызываем метод ensureCoreAvailable, который сам найдет модуль Core и запустит его
-                                            coreManager.ensureCoreAvailable();
-                                        }
-                                    });
+            // Проверяем диапазоны версий хоста и зависимостей
+            const compatibilityProblems = checkModuleRequirements(
+                readModuleRequirements(modulePkg), this.hostVersion, this.getInstalledVersions());
+            if (compatibilityProblems.length > 0) {
+                const errorMsg = `Модуль ${moduleId} (${modulePkg.version}) несовместим: ${compatibilityProblems.join('; ')}`;
+                log.error(`ModuleRegistry: ${errorMsg}`);
+                throw new Error(errorMsg);
+            }
 
-                                    // Добавляем команду в context
-                                    this.context.subscriptions.push(command);
+            // Дополнительная проверка для модуля Core
+            if (moduleId === 'kb-core' || modulePath.includes('kb-core')) {
+                log.debug(`ModuleRegistry: Обнаружен модуль kb-core! Путь: ${modulePath}, ID: ${moduleId}`);
+                // Проверяем наличие KB.Orchestrator.dll в директории модуля
+                const dllPath = path.join(modulePath, 'KB.Orchestrator.dll');
+                if (fs.existsSync(dllPath)) {
+                    log.debug(`ModuleRegistry: Найден файл KB.Orchestrator.dll: ${dllPath}`);
+                } else {
+                    log.error(`ModuleRegistry: В модуле kb-core не найден файл KB.Orchestrator.dll: ${dllPath}`);
+                }
+            }
 
-                                    // Регистрируем команду в палитре команд динамически
-                                    this.registerCommandInPalette(commandDef.command, commandDef.title, commandDef.category);
-                                }
-                            } catch (e) {
-                                console.error(`ModuleRegistry: Ошибка при регистрации команды ${commandDef.command}:`, e);
-                            }
-                        }
-                    }
-                },
+            // Модули с JavaScript-точкой входа загружаются через require,
+            // модули без неё (например, .NET-модули Core) описываются только манифестом
+            const entryPoint = this.resolveModuleEntryPoint(modulePath, modulePkg);
+            let moduleInstance: IModule;
+            if (entryPoint) {
+                log.debug(`ModuleRegistry: Загрузка точки входа модуля: ${entryPoint}`);
+                moduleInstance = this.createModuleFromExports(nodeRequire(entryPoint), moduleId, entryPoint);
+
+                if (moduleInstance.id !== moduleId) {
+                    const errorMsg = `ID модуля из ${entryPoint} (${moduleInstance.id}) не совпадает с ID в манифесте (${moduleId})`;
+                    log.error(`ModuleRegistry: ${errorMsg}`);
+                    throw new Error(errorMsg);
+                }
 
-                deactivate: async () => {
-                    console.log(`ModuleRegistry: Деактивация модуля ${moduleInstance.id}`);
-                    // Здесь можно добавить код деактивации, если необходимо
+                // Зависимости из манифеста используются, если модуль не объявил их сам
+                if (!moduleInstance.dependencies) {
+                    moduleInstance.dependencies = this.readManifestDependencies(modulePkg);
                 }
-            };
+            } else {
+                log.debug(`ModuleRegistry: Создание экземпляра модуля на основе манифеста`);
+                moduleInstance = this.createManifestOnlyModule(modulePkg, moduleId);
+            }
 
             // Регистрируем модуль
-            logToFile(`ДИАГНОСТИКА: Попытка регистрации модуля ${moduleInstance.id}`);
+            log.debug(`ModuleRegistry: Попытка регистрации модуля ${moduleInstance.id}`);
             try {
-                await this.registerModule(moduleInstance);
-                logToFile(`ДИАГНОСТИКА: Модуль ${moduleInstance.id} успешно зарегистрирован`);
+                await this.registerModuleWithPath(moduleInstance, modulePath);
+                this.modulePaths.set(moduleInstance.id, modulePath);
+                this.manifestSignatures.set(moduleInstance.id, manifestContent);
+                log.debug(`ModuleRegistry: Модуль ${moduleInstance.id} успешно зарегистрирован`);
             } catch (e) {
-                logToFile(`ОШИБКА при регистрации модуля ${moduleInstance.id}: ${e}`);
+                log.error(`ModuleRegistry: Ошибка при регистрации модуля ${moduleInstance.id}:`, e);
                 throw e;
             }
 
-            logToFile(`ДИАГНОСТИКА: Внешний модуль ${moduleInstance.id} успешно загружен`);
+            log.debug(`ModuleRegistry: Внешний модуль ${moduleInstance.id} успешно загружен`);
 
             // Активируем модуль
-            logToFile(`ДИАГНОСТИКА: Попытка активации модуля ${moduleInstance.id}`);
+            log.debug(`ModuleRegistry: Попытка активации модуля ${moduleInstance.id}`);
             try {
-                await moduleInstance.activate();
-                logToFile(`ДИАГНОСТИКА: Модуль ${moduleInstance.id} успешно активирован`);
+                await this.activateModule(moduleInstance.id);
+                log.debug(`ModuleRegistry: Модуль ${moduleInstance.id} успешно активирован`);
             } catch (e) {
-                logToFile(`ОШИБКА при активации модуля ${moduleInstance.id}: ${e}`);
+                log.error(`ModuleRegistry: Ошибка при активации модуля ${moduleInstance.id}:`, e);
                 throw e;
             }
 
         } catch (error) {
-            console.error(`ModuleRegistry: Ошибка загрузки внешнего модуля:`, error);
+            log.error(`ModuleRegistry: Ошибка загрузки внешнего модуля:`, error);
             if (error instanceof Error) {
-                console.error(`ModuleRegistry: Детали ошибки: ${error.message}`);
-                console.error(`ModuleRegistry: Стек ошибки: ${error.stack}`);
+                log.error(`ModuleRegistry: Детали ошибки: ${error.message}`);
+                log.error(`ModuleRegistry: Стек ошибки: ${error.stack}`);
             }
             throw error;
         }
     }
 
     /**
-     * Обработка экспорта модуля
+     * Создание модуля, описанного только манифестом: он регистрирует команды из contributes.commands
+     * @param modulePkg Содержимое манифеста модуля
+     * @param moduleId ID модуля
+     */
+    private createManifestOnlyModule(modulePkg: any, moduleId: string): IModule {
+        let moduleContext: IModuleContext | undefined;
+        const moduleInstance: IModule = {
+            id: moduleId,
+            version: modulePkg.version || '1.0.0',
+            displayName: modulePkg.displayName || modulePkg.name || 'External Module',
+            description: modulePkg.description || 'External module for Modular KB',
+            dependencies: this.readManifestDependencies(modulePkg),
+
+            // Реализуем методы интерфейса IModule
+            initialize: async (context: IModuleContext, registry: IModuleRegistry) => {
+                log.info(`ModuleRegistry: Инициализация модуля ${moduleInstance.id}`);
+                moduleContext = context;
+                // Здесь можно добавить код инициализации, если необходимо
+            },
+
+            activate: async () => {
+                log.info(`ModuleRegistry: Активация модуля ${moduleInstance.id}`);
+                // Здесь можно добавить код активации, если необходимо
+
+                // Регистрируем команды или другие функции модуля
+                if (modulePkg.contributes && modulePkg.contributes.commands) {
+                    log.info(`ModuleRegistry: Модуль ${moduleInstance.id} имеет ${modulePkg.contributes.commands.length} команд`);
+
+                    // Регистрируем каждую команду из манифеста модуля
+                    for (const commandDef of modulePkg.contributes.commands) {
+                        try {
+                            if (commandDef.command && commandDef.title) {
+                                log.info(`ModuleRegistry: Регистрация команды ${commandDef.command}`);
+
+                                // Регистрируем команду
+                                const command = vscode.commands.registerCommand(commandDef.command, async () => {
+                                    log.info(`Выполнена команда модуля: ${commandDef.command}`);
+
+                                    // Если это команда запуска Core
+                                    if (commandDef.command === 'kb.startCore') {
+                                        log.info('ModuleRegistry: Запуск Core...');
+
+                                        // Создаем экземпляр CoreManager для работы с модулем
+                                        const coreManager = new CoreManager(this.context);
+
+                                        // Вызываем метод ensureCoreAvailable, который сам найдет модуль Core и запустит его
+                                        coreManager.ensureCoreAvailable();
+                                    }
+                                });
+
+                                // Команда принадлежит модулю и удаляется при его деактивации
+                                moduleContext?.subscriptions.push(command);
+
+                                // Регистрируем команду в палитре команд динамически
+                                this.registerCommandInPalette(commandDef.command, commandDef.title, commandDef.category);
+                            }
+                        } catch (e) {
+                            log.error(`ModuleRegistry: Ошибка при регистрации команды ${commandDef.command}:`, e);
+                        }
+                    }
+                }
+            },
+
+            deactivate: async () => {
+                log.info(`ModuleRegistry: Деактивация модуля ${moduleInstance.id}`);
+                // Здесь можно добавить код деактивации, если необходимо
+            }
+        };
+
+        return moduleInstance;
+    }
+
+    /**
+     * Поиск JavaScript-точки входа модуля по полю main манифеста
+     * @param modulePath Путь к директории модуля
+     * @param modulePkg Содержимое манифеста модуля
+     * @returns Абсолютный путь к файлу точки входа или undefined, если модуль её не имеет
+     */
+    private resolveModuleEntryPoint(modulePath: string, modulePkg: any): string | undefined {
+        if (typeof modulePkg.main !== 'string' || modulePkg.main.length === 0) {
+            return undefined;
+        }
+
+        const mainPath = path.resolve(modulePath, modulePkg.main);
+        if (path.relative(modulePath, mainPath).startsWith('..')) {
+            throw new Error(`Точка входа модуля указывает за пределы его директории: ${modulePkg.main}`);
+        }
+
+        const candidates = [mainPath, `${mainPath}.js`, path.join(mainPath, 'index.js')];
+        const entryPoint = candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+        if (!entryPoint) {
+            throw new Error(`Точка входа модуля не найдена: ${mainPath}`);
+        }
+
+        if (!['.js', '.cjs'].includes(path.extname(entryPoint).toLowerCase())) {
+            // Например, main указывает на сборку .NET: такой модуль загружается Core, а не расширением
+            return undefined;
+        }
+
+        return entryPoint;
+    }
+
+    /**
+     * Чтение ID модулей-зависимостей из манифеста
+     * @param manifest Содержимое манифеста модуля
+     * @returns Список ID модулей-зависимостей
+     */
+    private readManifestDependencies(manifest: any): string[] {
+        return Object.keys(readDependencyRanges(manifest));
+    }
+
+    /**
+     * Создание экземпляра модуля из экспортов его точки входа
      * @param moduleExports Экспорты модуля
-     * @param modulePath Путь к модулю
+     * @param moduleId ID модуля из манифеста (для сообщений об ошибках)
+     * @param entryPoint Путь к точке входа (для сообщений об ошибках)
+     * @returns Экземпляр модуля
+     * @throws Error, если экспорты не содержат модуль или созданный объект не реализует IModule
      */
-    private async processModuleExports(moduleExports: any, modulePath: string): Promise<void> {
+    private createModuleFromExports(moduleExports: any, moduleId: string, entryPoint: string): IModule {
+        // Результат createModule или конструктора проверяется до регистрации модуля
+        const checked = (instance: unknown, source: string): IModule => {
+            const problem = this.getModuleInstanceProblem(instance);
+            if (problem) {
+                throw new Error(`Модуль ${moduleId}: ${source} из ${entryPoint} не вернул объект, реализующий IModule (${problem})`);
+            }
+            return instance as IModule;
+        };
+
         // Проверяем наличие функции createModule или класса модуля
         if (typeof moduleExports.createModule === 'function') {
             // Создаем экземпляр модуля через функцию createModule
-            const moduleInstance = moduleExports.createModule();
-            await this.registerAndActivateModule(moduleInstance);
+            return checked(moduleExports.createModule(), 'createModule()');
         } else if (moduleExports.default && typeof moduleExports.default.createModule === 'function') {
             // Если функция createModule находится в default экспорте
-            const moduleInstance = moduleExports.default.createModule();
-            await this.registerAndActivateModule(moduleInstance);
+            return checked(moduleExports.default.createModule(), 'default.createModule()');
         } else if (moduleExports.default && typeof moduleExports.default === 'function') {
             // Если default экспорт - это функция-конструктор
             const ModuleClass = moduleExports.default;
-            const moduleInstance = new ModuleClass();
-            await this.registerAndActivateModule(moduleInstance);
+            return checked(new ModuleClass(), `конструктор ${ModuleClass.name || 'default'}`);
         } else if (typeof moduleExports === 'function') {
             // Если сам экспорт - это функция-конструктор
             const ModuleClass = moduleExports;
-            const moduleInstance = new ModuleClass();
-            await this.registerAndActivateModule(moduleInstance);
-        } else {
-            // Если ничего не нашли, пробуем найти класс, реализующий IModule
-            let moduleInstance = null;
+            return checked(new ModuleClass(), `конструктор ${ModuleClass.name || 'module.exports'}`);
+        }
 
-            // Проверяем все экспорты на наличие класса, реализующего IModule
-            for (const key in moduleExports) {
-                if (typeof moduleExports[key] === 'function') {
-                    try {
-                        const instance = new moduleExports[key]();
-                        if (instance.id && instance.version && typeof instance.initialize === 'function' &&
-                            typeof instance.activate === 'function' && typeof instance.deactivate === 'function') {
-                            moduleInstance = instance;
-                            break;
-                        }
-                    } catch (e) {
-                        // Игнорируем ошибки при создании экземпляра
+        // Если ничего не нашли, пробуем найти класс, реализующий IModule
+        for (const key in moduleExports) {
+            if (typeof moduleExports[key] === 'function') {
+                try {
+                    const instance = new moduleExports[key]();
+                    if (this.getModuleInstanceProblem(instance) === undefined) {
+                        return instance;
                     }
+                } catch (e) {
+                    // Игнорируем ошибки при создании экземпляра
                 }
             }
-
-            if (moduleInstance) {
-                await this.registerAndActivateModule(moduleInstance);
-            } else {
-                throw new Error(`Модуль не экспортирует функцию createModule или класс, реализующий IModule`);
-            }
         }
+
+        throw new Error(`Модуль ${moduleId}: ${entryPoint} не экспортирует функцию createModule или класс, реализующий IModule`);
     }
 
     /**
-     * Регистрация и активация модуля
-     * @param moduleInstance Экземпляр модуля
+     * Проверка, что объект реализует IModule
+     * @param instance Результат createModule или конструктора модуля
+     * @returns Описание несоответствия или undefined
      */
-    private async registerAndActivateModule(moduleInstance: IModule): Promise<void> {
-        // Регистрируем модуль
-        await this.registerModule(moduleInstance);
-
-        console.log(`ModuleRegistry: Внешний модуль ${moduleInstance.id} успешно загружен`);
-
-        // Активируем модуль
-        await moduleInstance.activate();
+    private getModuleInstanceProblem(instance: any): string | undefined {
+        if (!instance || typeof instance !== 'object') {
+            return `получено ${instance === null ? 'null' : typeof instance}`;
+        }
+        if (typeof instance.then === 'function') {
+            return 'получен Promise, createModule должна возвращать модуль синхронно';
+        }
+        const missing = [
+            ...['id', 'version'].filter(key => typeof instance[key] !== 'string' || instance[key].length === 0),
+            ...['initialize', 'activate', 'deactivate'].filter(key => typeof instance[key] !== 'function').map(key => `${key}()`)
+        ];
+        return missing.length > 0 ? `отсутствуют ${missing.join(', ')}` : undefined;
     }
 
     /**
@@ -638,12 +2066,12 @@ export class ModuleRegistry implements IModuleRegistry {
             });
 
             if (!fileUris || fileUris.length === 0) {
-                console.log('ModuleRegistry: Пользователь не выбрал файл');
+                log.info('ModuleRegistry: Пользователь не выбрал файл');
                 return;
             }
 
             const filePath = fileUris[0].fsPath;
-            console.log(`ModuleRegistry: Выбран файл: ${filePath}`);
+            log.info(`ModuleRegistry: Выбран файл: ${filePath}`);
 
             // Получаем имя модуля из имени файла (без расширения)
             const fileName = path.basename(filePath);
@@ -653,12 +2081,12 @@ export class ModuleRegistry implements IModuleRegistry {
             await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: `Установка модуля ${moduleName}`,
-                cancellable: false
-            }, async (progress) => {
+                cancellable: true
+            }, async (progress, token) => {
                 progress.report({ increment: 0, message: 'Начало установки...' });
 
-                // Устанавливаем модуль из ZIP-архива
-                await this.installModuleFromZip(filePath, moduleName);
+                // Устанавливаем модуль из ZIP-архива; хэш и подпись берутся из файлов .sha256 и .sig рядом с архивом
+                await this.installModuleFromZip(filePath, moduleName, readSidecarIntegrity(filePath), { token });
 
                 progress.report({ increment: 100, message: 'Установка завершена' });
             });
@@ -667,7 +2095,11 @@ export class ModuleRegistry implements IModuleRegistry {
             vscode.window.showInformationMessage(`Модуль ${moduleName} успешно установлен`);
 
         } catch (error) {
-            console.error('ModuleRegistry: Ошибка при установке локального модуля:', error);
+            if (error instanceof vscode.CancellationError) {
+                vscode.window.showInformationMessage('Установка модуля отменена');
+                return;
+            }
+            log.error('ModuleRegistry: Ошибка при установке локального модуля:', error);
             if (error instanceof Error) {
                 vscode.window.showErrorMessage(`Ошибка при установке модуля: ${error.message}`);
             } else {
@@ -681,130 +2113,133 @@ export class ModuleRegistry implements IModuleRegistry {
      * @param repoUrl URL репозитория GitHub
      */
     public async loadModuleFromGitHub(repoUrl: string): Promise<void> {
-        try {
-            console.log(`ModuleRegistry: Loading module from GitHub repository: ${repoUrl}`);
+        return this.runExclusive(async () => {
+            try {
+                log.info(`ModuleRegistry: Loading module from GitHub repository: ${repoUrl}`);
 
-            // Проверяем, что URL является GitHub репозиторием
-            if (!repoUrl.startsWith('https://github.com/')) {
-                throw new Error(`Invalid GitHub repository URL: ${repoUrl}`);
-            }
+                // Проверяем, что URL является GitHub репозиторием
+                if (!repoUrl.startsWith('https://github.com/')) {
+                    throw new Error(`Invalid GitHub repository URL: ${repoUrl}`);
+                }
 
-            // Создаем временную директорию для клонирования репозитория
-            const tempDir = path.join(os.tmpdir(), `modular-kb-module-${Date.now()}`);
-            if (!fs.existsSync(tempDir)) {
-                fs.mkdirSync(tempDir, { recursive: true });
-            }
+                // Создаем временную директорию для клонирования репозитория
+                const tempDir = path.join(os.tmpdir(), `modular-kb-module-${Date.now()}`);
+                if (!fs.existsSync(tempDir)) {
+                    fs.mkdirSync(tempDir, { recursive: true });
+                }
 
-            console.log(`ModuleRegistry: Cloning repository to ${tempDir}`);
+                log.info(`ModuleRegistry: Cloning repository to ${tempDir}`);
 
-            // Клонируем репозиторий
-            await new Promise<void>((resolve, reject) => {
-                const gitProcess = childProcess.spawn('git', ['clone', repoUrl, tempDir], {
-                    stdio: 'pipe'
-                });
+                // Клонируем репозиторий
+                await new Promise<void>((resolve, reject) => {
+                    // git не использует HTTP-клиент расширения, поэтому передаём ему тот же прокси
+                    const proxy = this.getHttpClient().getProxyFor(repoUrl);
+                    const gitArgs = proxy ? ['-c', `http.proxy=${proxy}`, 'clone', repoUrl, tempDir] : ['clone', repoUrl, tempDir];
+                    const gitProcess = childProcess.spawn('git', gitArgs, {
+                        stdio: 'pipe'
+                    });
 
-                let errorOutput = '';
+                    let errorOutput = '';
 
-                gitProcess.stderr.on('data', (data) => {
-                    errorOutput += data.toString();
-                });
+                    gitProcess.stderr.on('data', (data) => {
+                        errorOutput += data.toString();
+                    });
 
-                gitProcess.on('close', (code) => {
-                    if (code !== 0) {
-                        reject(new Error(`Failed to clone repository: ${errorOutput}`));
-                    } else {
-                        resolve();
-                    }
+                    gitProcess.on('close', (code) => {
+                        if (code !== 0) {
+                            reject(new Error(`Failed to clone repository: ${errorOutput}`));
+                        } else {
+                            resolve();
+                        }
+                    });
                 });
-            });
 
-            console.log(`ModuleRegistry: Repository cloned successfully`);
+                log.info(`ModuleRegistry: Repository cloned successfully`);
 
-            // Проверяем, что это модуль для нашего расширения
-            const packageJsonPath = path.join(tempDir, 'package.json');
-            if (!fs.existsSync(packageJsonPath)) {
-                throw new Error(`Module package.json not found at: ${packageJsonPath}`);
-            }
+                // Проверяем, что это модуль для нашего расширения
+                const packageJsonPath = path.join(tempDir, 'package.json');
+                if (!fs.existsSync(packageJsonPath)) {
+                    throw new Error(`Module package.json not found at: ${packageJsonPath}`);
+                }
 
-            // Устанавливаем зависимости
-            console.log(`ModuleRegistry: Installing dependencies`);
-            await new Promise<void>((resolve, reject) => {
-                const npmProcess = childProcess.spawn('npm', ['install'], {
-                    cwd: tempDir,
-                    stdio: 'pipe'
-                });
+                // Устанавливаем зависимости
+                log.info(`ModuleRegistry: Installing dependencies`);
+                await new Promise<void>((resolve, reject) => {
+                    const npmProcess = childProcess.spawn('npm', ['install'], {
+                        cwd: tempDir,
+                        stdio: 'pipe'
+                    });
 
-                let errorOutput = '';
+                    let errorOutput = '';
 
-                npmProcess.stderr.on('data', (data) => {
-                    errorOutput += data.toString();
-                });
+                    npmProcess.stderr.on('data', (data) => {
+                        errorOutput += data.toString();
+                    });
 
-                npmProcess.on('close', (code) => {
-                    if (code !== 0) {
-                        reject(new Error(`Failed to install dependencies: ${errorOutput}`));
-                    } else {
-                        resolve();
-                    }
+                    npmProcess.on('close', (code) => {
+                        if (code !== 0) {
+                            reject(new Error(`Failed to install dependencies: ${errorOutput}`));
+                        } else {
+                            resolve();
+                        }
+                    });
                 });
-            });
 
-            // Собираем модуль
-            console.log(`ModuleRegistry: Building module`);
-            await new Promise<void>((resolve, reject) => {
-                const buildProcess = childProcess.spawn('npm', ['run', 'build'], {
-                    cwd: tempDir,
-                    stdio: 'pipe'
-                });
+                // Собираем модуль
+                log.info(`ModuleRegistry: Building module`);
+                await new Promise<void>((resolve, reject) => {
+                    const buildProcess = childProcess.spawn('npm', ['run', 'build'], {
+                        cwd: tempDir,
+                        stdio: 'pipe'
+                    });
 
-                let errorOutput = '';
+                    let errorOutput = '';
 
-                buildProcess.stderr.on('data', (data) => {
-                    errorOutput += data.toString();
-                });
+                    buildProcess.stderr.on('data', (data) => {
+                        errorOutput += data.toString();
+                    });
 
-                buildProcess.on('close', (code) => {
-                    if (code !== 0) {
-                        reject(new Error(`Failed to build module: ${errorOutput}`));
-                    } else {
-                        resolve();
-                    }
+                    buildProcess.on('close', (code) => {
+                        if (code !== 0) {
+                            reject(new Error(`Failed to build module: ${errorOutput}`));
+                        } else {
+                            resolve();
+                        }
+                    });
                 });
-            });
-
-            // Получаем имя модуля из package.json
-            const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
-            const moduleName = packageJson.name;
 
-            // Копируем модуль в директорию modules
-            const targetDir = path.join(this.modulesDir, moduleName);
+                // Директория модуля называется по ID из проверенного манифеста (module.json имеет приоритет над package.json)
+                const moduleId = getManifestId(readModuleManifest(tempDir).manifest);
+                const moduleDir = this.getModuleDirectory(moduleId);
 
-            // Если директория уже существует, удаляем ее
-            if (fs.existsSync(targetDir)) {
-                fs.rmdirSync(targetDir, { recursive: true });
-            }
-
-            // Копируем директорию модуля
-            this.copyDir(tempDir, targetDir);
-
-            console.log(`ModuleRegistry: Module copied to ${targetDir}`);
+                // Копируем модуль во временную директорию рядом с целевой и заменяем текущую версию
+                const stagingDir = path.join(this.modulesDir, `.staging-${moduleId}-${Date.now()}`);
+                try {
+                    this.copyDir(tempDir, stagingDir);
+                    writeInstallInfo(stagingDir, { type: 'git', resolved: repoUrl });
+                    await this.replaceModuleDirectory(moduleId, stagingDir);
+                } finally {
+                    if (fs.existsSync(stagingDir)) {
+                        fs.rmSync(stagingDir, { recursive: true, force: true });
+                    }
+                }
 
-            // Загружаем модуль
-            await this.loadExternalModule(targetDir);
+                log.info(`ModuleRegistry: Module installed to ${moduleDir}`);
 
-            // Удаляем временную директорию
-            fs.rmdirSync(tempDir, { recursive: true });
+                // Удаляем временную директорию
+                fs.rmdirSync(tempDir, { recursive: true });
 
-            console.log(`ModuleRegistry: Module from GitHub loaded successfully`);
+                log.info(`ModuleRegistry: Module from GitHub loaded successfully`);
 
-        } catch (error) {
-            console.error(`ModuleRegistry: Error loading module from GitHub:`, error);
-            if (error instanceof Error) {
-                console.error(`ModuleRegistry: Error details: ${error.message}`);
-                console.error(`ModuleRegistry: Stack trace: ${error.stack}`);
+            } catch (error) {
+                log.error(`ModuleRegistry: Error loading module from GitHub:`, error);
+                if (error instanceof Error) {
+                    log.error(`ModuleRegistry: Error details: ${error.message}`);
+                    log.error(`ModuleRegistry: Stack trace: ${error.stack}`);
+                }
+                throw error;
             }
-            throw error;
-        }
+        });
     }
 
     /**
@@ -836,7 +2271,7 @@ export class ModuleRegistry implements IModuleRegistry {
      */
     private registerCommandInPalette(command: string, title: string, category?: string): void {
         try {
-            logToFile(`ДИАГНОСТИКА: Динамическая регистрация команды в палитре: ${command}`);
+            log.debug(`ModuleRegistry: Динамическая регистрация команды в палитре: ${command}`);
 
             // Разделяем title и добавляем категорию, если она есть
             let fullTitle = title;
@@ -854,10 +2289,10 @@ export class ModuleRegistry implements IModuleRegistry {
                     vscode.commands.executeCommand('workbench.action.closeQuickOpen');
                 }, 100);
 
-                logToFile(`ДИАГНОСТИКА: Команда ${command} (${fullTitle}) динамически добавлена в палитру`);
+                log.debug(`ModuleRegistry: Команда ${command} (${fullTitle}) динамически добавлена в палитру`);
             }
         } catch (error) {
-            console.error(`ModuleRegistry: Ошибка при регистрации команды в палитре: ${error}`);
+            log.error(`ModuleRegistry: Ошибка при регистрации команды в палитре: ${error}`);
         }
     }
 
@@ -865,201 +2300,239 @@ export class ModuleRegistry implements IModuleRegistry {
      * Загрузка модуля из ZIP-архива
      * @param moduleUrl URL ZIP-архива модуля или путь к локальному файлу
      * @param moduleName Имя модуля (для директории)
+     * @param integrity Ожидаемый SHA-256 и подпись архива
+     * @param options Заголовки запроса, отмена и прогресс загрузки
      */
-    public async installModuleFromZip(moduleUrl: string, moduleName: string): Promise<void> {
-        let tempDir = '';
-        try {
-            console.log(`ModuleRegistry: Установка модуля из ${moduleUrl}`);
-
-            // Проверяем URL и при необходимости корректируем
-            // Если URL содержит github.com/raw/, заменяем на raw.githubusercontent.com
-            if (moduleUrl.includes('github.com') && moduleUrl.includes('/raw/')) {
-                moduleUrl = moduleUrl.replace('github.com', 'raw.githubusercontent.com')
-                    .replace('/raw/', '/');
-                console.log(`ModuleRegistry: Скорректирован URL: ${moduleUrl}`);
-            }
+    public async installModuleFromZip(
+        moduleUrl: string,
+        moduleName: string,
+        integrity: IModuleIntegrity = {},
+        options: IModuleInstallOptions = {}
+    ): Promise<void> {
+        return this.runExclusive(async () => {
+            let tempDir = '';
+            try {
+                log.info(`ModuleRegistry: Установка модуля из ${moduleUrl}`);
+                // Имя становится именем директории модуля, архива и временных директорий
+                this.getModuleDirectory(moduleName);
+
+                // Проверяем URL и при необходимости корректируем
+                // Если URL содержит github.com/raw/, заменяем на raw.githubusercontent.com
+                if (moduleUrl.includes('github.com') && moduleUrl.includes('/raw/')) {
+                    moduleUrl = moduleUrl.replace('github.com', 'raw.githubusercontent.com')
+                        .replace('/raw/', '/');
+                    log.info(`ModuleRegistry: Скорректирован URL: ${moduleUrl}`);
+                }
 
-            // Создаем временную директорию для загрузки ZIP-архива
-            tempDir = path.join(os.tmpdir(), `modular-kb-module-${Date.now()}`);
-            if (!fs.existsSync(tempDir)) {
-                fs.mkdirSync(tempDir, { recursive: true });
-            }
+                // Создаем временную директорию для загрузки ZIP-архива
+                tempDir = path.join(os.tmpdir(), `modular-kb-module-${Date.now()}`);
+                if (!fs.existsSync(tempDir)) {
+                    fs.mkdirSync(tempDir, { recursive: true });
+                }
 
-            const zipFilePath = path.join(tempDir, `${moduleName}.zip`);
+                const zipFilePath = path.join(tempDir, `${moduleName}.zip`);
 
-            // Загружаем ZIP-архив
-            console.log(`ModuleRegistry: Загрузка ZIP-архива в ${zipFilePath}`);
+                // Загружаем ZIP-архив
+                log.info(`ModuleRegistry: Загрузка ZIP-архива в ${zipFilePath}`);
 
-            // Проверяем, является ли moduleUrl локальным путем
-            if (fs.existsSync(moduleUrl)) {
-                // Это локальный файл, просто копируем его
-                console.log(`ModuleRegistry: Найден локальный ZIP-архив, копируем его`);
-                fs.copyFileSync(moduleUrl, zipFilePath);
-            } else {
-                // Пробуем сначала загрузить из локальной директории, если там есть файл
-                const localZipPath = path.join(this.context.extensionPath, '..', 'modules-build', `${moduleName}.zip`);
-                if (fs.existsSync(localZipPath)) {
-                    console.log(`ModuleRegistry: Найден локальный ZIP-архив в modules-build, копируем его`);
-                    fs.copyFileSync(localZipPath, zipFilePath);
+                // Проверяем, является ли moduleUrl локальным путем
+                if (fs.existsSync(moduleUrl)) {
+                    // Это локальный файл, просто копируем его
+                    log.info(`ModuleRegistry: Найден локальный ZIP-архив, копируем его`);
+                    fs.copyFileSync(moduleUrl, zipFilePath);
                 } else {
-                    // Если локального файла нет, загружаем с GitHub
-                    await this.downloadFile(moduleUrl, zipFilePath);
+                    // Пробуем сначала загрузить из локальной директории, если там есть файл
+                    const localZipPath = path.join(this.context.extensionPath, '..', 'modules-build', `${moduleName}.zip`);
+                    if (fs.existsSync(localZipPath)) {
+                        log.info(`ModuleRegistry: Найден локальный ZIP-архив в modules-build, копируем его`);
+                        fs.copyFileSync(localZipPath, zipFilePath);
+                    } else {
+                        // Архив с известным SHA-256 мог быть загружен ранее
+                        const cachedArchive = integrity.sha256 ? await this.moduleCache.getArchive(moduleUrl, integrity.sha256) : undefined;
+                        if (cachedArchive) {
+                            log.info(`ModuleRegistry: Найден архив модуля в кэше: ${cachedArchive}`);
+                            fs.copyFileSync(cachedArchive, zipFilePath);
+                        } else {
+                            try {
+                                await this.downloadFile(moduleUrl, zipFilePath, options);
+                            } catch (error) {
+                                // Без сети используем архив, ранее загруженный с того же адреса
+                                const offlineArchive = error instanceof vscode.CancellationError
+                                    ? undefined
+                                    : await this.moduleCache.getArchive(moduleUrl);
+                                if (!offlineArchive) {
+                                    throw error;
+                                }
+                                log.warn(`ModuleRegistry: Загрузка не удалась, используется архив из кэша: ${offlineArchive}`);
+                                fs.copyFileSync(offlineArchive, zipFilePath);
+                            }
+                        }
+                    }
                 }
-            }
 
-            // Проверяем, что файл существует и имеет размер больше 0
-            if (!fs.existsSync(zipFilePath) || fs.statSync(zipFilePath).size === 0) {
-                throw new Error(`Не удалось загрузить ZIP-архив модуля или файл пуст: ${zipFilePath}`);
-            }
+                // Проверяем, что файл существует и имеет размер больше 0
+                if (!fs.existsSync(zipFilePath) || fs.statSync(zipFilePath).size === 0) {
+                    throw new Error(`Не удалось загрузить ZIP-архив модуля или файл пуст: ${zipFilePath}`);
+                }
+
+                // Проверяем целостность архива до распаковки; при ошибке временная директория удаляется в finally
+                log.info(`ModuleRegistry: Проверка целостности архива ${zipFilePath}`);
+                const sha256 = await verifyModuleArchive(zipFilePath, integrity, this.getIntegrityPolicy());
+                log.info(`ModuleRegistry: SHA-256 архива: ${sha256}`);
+                const isLocalArchive = fs.existsSync(moduleUrl);
+                if (!isLocalArchive) {
+                    this.moduleCache.storeArchive(moduleUrl, zipFilePath, sha256);
+                }
+                this.throwIfCancelled(options.token);
 
-            // Создаем временную директорию для распаковки
-            const extractDir = path.join(tempDir, 'extracted');
-            fs.mkdirSync(extractDir, { recursive: true });
+                // Создаем временную директорию для распаковки
+                const extractDir = path.join(tempDir, 'extracted');
+                fs.mkdirSync(extractDir, { recursive: true });
 
-            // Распаковываем ZIP-архив
-            console.log(`ModuleRegistry: Распаковка ZIP-архива в ${extractDir}`);
-            await this.extractZip(zipFilePath, extractDir);
+                // Распаковываем ZIP-архив
+                log.info(`ModuleRegistry: Распаковка ZIP-архива в ${extractDir}`);
+                await this.extractZip(zipFilePath, extractDir);
+                this.throwIfCancelled(options.token);
 
-            // Проверяем структуру распакованного архива
-            console.log(`ModuleRegistry: Проверка структуры распакованного архива`);
+                // Проверяем структуру распакованного архива
+                log.info(`ModuleRegistry: Проверка структуры распакованного архива`);
 
-            // Поиск package.json в распакованной директории
-            let moduleRoot = extractDir;
-            let packageJsonPath = '';
+                // Поиск манифеста (module.json или package.json) в распакованной директории
+                let moduleRoot = extractDir;
+                let manifestPath = findManifestFile(extractDir);
 
-            // Проверяем файлы в корне
-            if (fs.existsSync(path.join(extractDir, 'package.json'))) {
-                packageJsonPath = path.join(extractDir, 'package.json');
-                console.log(`ModuleRegistry: Найден package.json в корне`);
-            } else {
-                // Если нет в корне, ищем в поддиректориях
-                const entries = fs.readdirSync(extractDir);
-
-                for (const entry of entries) {
-                    const entryPath = path.join(extractDir, entry);
-                    if (fs.statSync(entryPath).isDirectory()) {
-                        const possiblePackageJson = path.join(entryPath, 'package.json');
-                        if (fs.existsSync(possiblePackageJson)) {
-                            packageJsonPath = possiblePackageJson;
-                            moduleRoot = entryPath;
-                            console.log(`ModuleRegistry: Найден package.json в поддиректории ${entry}`);
-                            break;
+                if (manifestPath) {
+                    log.info(`ModuleRegistry: Найден манифест в корне`);
+                } else {
+                    // Если нет в корне, ищем в поддиректориях
+                    const entries = fs.readdirSync(extractDir);
+
+                    for (const entry of entries) {
+                        const entryPath = path.join(extractDir, entry);
+                        if (fs.statSync(entryPath).isDirectory()) {
+                            manifestPath = findManifestFile(entryPath);
+                            if (manifestPath) {
+                                moduleRoot = entryPath;
+                                log.info(`ModuleRegistry: Найден манифест в поддиректории ${entry}`);
+                                break;
+                            }
                         }
                     }
                 }
-            }
-
-            if (!packageJsonPath) {
-                throw new Error(`Не найден package.json в распакованном архиве. Проверьте структуру архива.`);
-            }
-
-            console.log(`ModuleRegistry: Используется package.json: ${packageJsonPath}`);
 
-            // Читаем package.json для получения информации о модуле
-            const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
-
-            // Выводим информацию о модуле
-            console.log(`ModuleRegistry: Модуль ID: ${packageJson.id || packageJson.name || 'не указан'}, Версия: ${packageJson.version || 'не указана'}`);
-
-
-            // Создаем директорию для модуля
-            const moduleDir = path.join(this.modulesDir, moduleName);
-            if (fs.existsSync(moduleDir)) {
-                console.log(`ModuleRegistry: Директория модуля уже существует, удаляем её`);
-                fs.rmdirSync(moduleDir, { recursive: true });
-            }
+                if (!manifestPath) {
+                    throw new Error(`Не найден манифест модуля (module.json или package.json) в распакованном архиве. Проверьте структуру архива.`);
+                }
 
-            // Копируем содержимое модуля в целевую директорию
-            console.log(`ModuleRegistry: Копирование модуля из ${moduleRoot} в ${moduleDir}`);
-            this.copyDir(moduleRoot, moduleDir);
+                log.info(`ModuleRegistry: Используется манифест: ${manifestPath}`);
 
-            // Проверяем, что все необходимые файлы скопированы
-            if (!fs.existsSync(path.join(moduleDir, 'package.json'))) {
-                throw new Error(`Не удалось скопировать package.json в целевую директорию`);
-            }
+                // Проверяем манифест по схеме до копирования модуля
+                const { manifest } = readModuleManifest(moduleRoot);
 
-            // Загружаем модуль
-            console.log(`ModuleRegistry: Загрузка модуля из ${moduleDir}`);
-            await this.loadExternalModule(moduleDir);
+                // Выводим информацию о модуле
+                log.info(`ModuleRegistry: Модуль ID: ${getManifestId(manifest)}, Версия: ${manifest.version}`);
 
-            console.log(`ModuleRegistry: Модуль ${moduleName} успешно установлен`);
-        } catch (error) {
-            console.error(`ModuleRegistry: Ошибка установки модуля:`, error);
-            if (error instanceof Error) {
-                console.error(`ModuleRegistry: Детали ошибки: ${error.message}`);
-                console.error(`ModuleRegistry: Стек ошибки: ${error.stack}`);
-            }
-            throw error;
-        } finally {
-            // Удаляем временную директорию, если она была создана
-            if (tempDir && fs.existsSync(tempDir)) {
+                // Копируем модуль во временную директорию рядом с целевой, чтобы заменить её атомарно
+                const stagingDir = path.join(this.modulesDir, `.staging-${moduleName}-${Date.now()}`);
+                log.info(`ModuleRegistry: Копирование модуля из ${moduleRoot} в ${stagingDir}`);
                 try {
-                    fs.rmdirSync(tempDir, { recursive: true });
-                    console.log(`ModuleRegistry: Временная директория ${tempDir} удалена`);
-                } catch (e) {
-                    console.warn(`ModuleRegistry: Не удалось удалить временную директорию: ${e}`);
+                    this.copyDir(moduleRoot, stagingDir);
+                    writeInstallInfo(stagingDir, {
+                        type: options.registry ? 'registry' : isLocalArchive ? 'file' : 'url',
+                        registry: options.registry,
+                        resolved: isLocalArchive ? path.resolve(moduleUrl) : moduleUrl,
+                        sha256
+                    });
+                    await this.replaceModuleDirectory(moduleName, stagingDir);
+                } finally {
+                    if (fs.existsSync(stagingDir)) {
+                        fs.rmSync(stagingDir, { recursive: true, force: true });
+                    }
+                }
+
+                log.info(`ModuleRegistry: Модуль ${moduleName} успешно установлен`);
+            } catch (error) {
+                log.error(`ModuleRegistry: Ошибка установки модуля:`, error);
+                if (error instanceof Error) {
+                    log.error(`ModuleRegistry: Детали ошибки: ${error.message}`);
+                    log.error(`ModuleRegistry: Стек ошибки: ${error.stack}`);
+                }
+                throw error;
+            } finally {
+                // Удаляем временную директорию, если она была создана
+                if (tempDir && fs.existsSync(tempDir)) {
+                    try {
+                        fs.rmdirSync(tempDir, { recursive: true });
+                        log.info(`ModuleRegistry: Временная директория ${tempDir} удалена`);
+                    } catch (e) {
+                        log.warn(`ModuleRegistry: Не удалось удалить временную директорию: ${e}`);
+                    }
                 }
             }
-        }
+        });
+    }
+
+    /**
+     * Политика проверки архивов из настроек modularKb.security
+     */
+    private getIntegrityPolicy(): IIntegrityPolicy {
+        const config = vscode.workspace.getConfiguration('modularKb.security');
+        return {
+            trustedKeys: config.get<ITrustedPublisherKey[]>('trustedPublisherKeys', []),
+            requireChecksum: config.get<boolean>('requireChecksum', false),
+            requireSignature: config.get<boolean>('requireSignature', false)
+        };
     }
 
     /**
-     * Загрузка файла по URL с использованием fetch API
+     * Загрузка архива модуля. Незавершённая загрузка сохраняется в кэше и продолжается
+     * при следующей попытке; таймаут и число повторов задаются настройками modularKb.network.
      * @param url URL файла
      * @param filePath Путь для сохранения файла
+     * @param options Заголовки запроса, отмена и прогресс загрузки
      */
-    private async downloadFile(url: string, filePath: string): Promise<void> {
-        try {
-            console.log(`ModuleRegistry: Загрузка файла с ${url}`);
-
-            // Проверяем URL и корректируем его при необходимости
-            if (url.includes('github.com/') && url.includes('/raw/')) {
-                url = url.replace('github.com/', 'raw.githubusercontent.com/')
-                    .replace('/raw/', '/');
-                console.log(`ModuleRegistry: Скорректирован URL: ${url}`);
-            }
-
-            // Используем нативный fetch API для загрузки файла
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 15000); // Таймаут 15 секунд
+    private async downloadFile(url: string, filePath: string, options: IModuleInstallOptions = {}): Promise<void> {
+        log.info(`ModuleRegistry: Загрузка файла с ${url}`);
+
+        // Проверяем URL и корректируем его при необходимости
+        if (url.includes('github.com/') && url.includes('/raw/')) {
+            url = url.replace('github.com/', 'raw.githubusercontent.com/')
+                .replace('/raw/', '/');
+            log.info(`ModuleRegistry: Скорректирован URL: ${url}`);
+        }
 
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-                },
-                redirect: 'follow', // Автоматически следовать за перенаправлениями
-                signal: controller.signal
+        const config = vscode.workspace.getConfiguration('modularKb.network');
+        const downloadPath = this.moduleCache.getDownloadPath(url);
+        try {
+            await downloadFile(url, downloadPath, {
+                client: this.getHttpClient(),
+                headers: options.headers,
+                timeout: config.get<number>('timeout', 30000),
+                retries: config.get<number>('retries', 3),
+                token: options.token,
+                onProgress: options.onDownloadProgress
             });
-
-            if (!response.ok) {
-                clearTimeout(timeoutId);
-                throw new Error(`Ошибка загрузки файла: ${response.status} ${response.statusText}`);
-            }
-
-            // Получаем данные в виде буфера
-            const buffer = await response.arrayBuffer();
-
-            // Записываем файл
-            fs.writeFileSync(filePath, Buffer.from(buffer));
-
-            clearTimeout(timeoutId); // Очищаем таймер
-
-            console.log(`ModuleRegistry: Файл успешно загружен и сохранен в ${filePath}`);
         } catch (error) {
-            console.error(`ModuleRegistry: Ошибка при загрузке файла:`, error);
-
-            // Удаляем частично загруженный файл, если он существует
-            if (fs.existsSync(filePath)) {
-                try {
-                    fs.unlinkSync(filePath);
-                } catch (e) {
-                    console.error(`ModuleRegistry: Не удалось удалить частично загруженный файл:`, e);
-                }
+            log.error(`ModuleRegistry: Ошибка при загрузке файла:`, error);
+            if (error instanceof DownloadCancelledError) {
+                throw new vscode.CancellationError();
             }
-
             throw error;
         }
+
+        fs.copyFileSync(downloadPath, filePath);
+        fs.rmSync(downloadPath, { force: true });
+        log.info(`ModuleRegistry: Файл успешно загружен и сохранен в ${filePath}`);
+    }
+
+    /**
+     * Прерывание установки, если пользователь её отменил
+     * @param token Отмена установки
+     */
+    private throwIfCancelled(token: vscode.CancellationToken | undefined): void {
+        if (token?.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
     }
 
     /**
@@ -1068,131 +2541,186 @@ export class ModuleRegistry implements IModuleRegistry {
      * @param extractPath Путь для распаковки
      */
     private async extractZip(zipFilePath: string, extractPath: string): Promise<void> {
-        return new Promise<void>((resolve, reject) => {
-            yauzl.open(zipFilePath, { lazyEntries: true }, (err: Error | null, zipfile?: yauzl.ZipFile) => {
-                if (err || !zipfile) {
-                    reject(err || new Error('Failed to open ZIP file'));
+        const config = vscode.workspace.getConfiguration('modularKb.install');
+        await extractZipSafely(zipFilePath, extractPath, {
+            maxUncompressedSize: config.get<number>('maxUncompressedSizeMB', 500) * 1024 * 1024,
+            maxEntries: config.get<number>('maxEntries', DEFAULT_ZIP_EXTRACTION_LIMITS.maxEntries),
+            maxCompressionRatio: config.get<number>('maxCompressionRatio', DEFAULT_ZIP_EXTRACTION_LIMITS.maxCompressionRatio)
+        });
+    }
+
+    /**
+     * Сканирование и загрузка всех внешних модулей из директории модулей
+     */
+    public async scanAndLoadExternalModules(): Promise<void> {
+        return this.runExclusive(async () => {
+            try {
+                log.debug(`ModuleRegistry: Начато сканирование внешних модулей в директории ${this.modulesDir}`);
+
+                // Проверяем существование директории
+                if (!fs.existsSync(this.modulesDir)) {
+                    log.warn(`ModuleRegistry: Директория модулей не существует, создаём её: ${this.modulesDir}`);
+                    fs.mkdirSync(this.modulesDir, { recursive: true });
                     return;
                 }
 
-                zipfile.on('entry', (entry: yauzl.Entry) => {
-                    const entryPath = path.join(extractPath, entry.fileName);
-
-                    if (entry.fileName.endsWith('/')) {
-                        // Директория
-                        fs.mkdirSync(entryPath, { recursive: true });
-                        zipfile.readEntry();
-                    } else {
-                        // Файл
-                        fs.mkdirSync(path.dirname(entryPath), { recursive: true });
-                        zipfile.openReadStream(entry, (err: Error | null, readStream?: NodeJS.ReadableStream) => {
-                            if (err || !readStream) {
-                                reject(err || new Error(`Failed to read entry ${entry.fileName}`));
-                                return;
+                // Получаем список всех файлов и директорий для подробной диагностики
+                log.debug(`ModuleRegistry: Содержимое директории модулей:`);
+                try {
+                    const allEntries = fs.readdirSync(this.modulesDir);
+                    for (const entry of allEntries) {
+                        const entryPath = path.join(this.modulesDir, entry);
+                        const stats = fs.statSync(entryPath);
+                        log.debug(`  - ${entry} [${stats.isDirectory() ? 'Директория' : 'Файл'}]`);
+
+                        // Если это директория, проверяем наличие манифеста
+                        if (stats.isDirectory()) {
+                            const manifestPath = findManifestFile(entryPath);
+                            if (manifestPath) {
+                                try {
+                                    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+                                    log.debug(`    - Найден ${path.basename(manifestPath)}: id=${manifest.id}, name=${manifest.name}, version=${manifest.version}`);
+                                } catch (e) {
+                                    log.warn(`    - ошибка чтения ${path.basename(manifestPath)}: ${e}`);
+                                }
+                            } else {
+                                log.debug(`    - манифест отсутствует`);
                             }
+                        }
+                    }
+                } catch (e) {
+                    log.error(`ModuleRegistry: Ошибка при чтении содержимого директории модулей:`, e);
+                }
 
-                            const writeStream = fs.createWriteStream(entryPath);
-                            readStream.pipe(writeStream);
+                // Получаем список поддиректорий для загрузки модулей
+                // Служебные директории (резервные копии, незавершённые установки) начинаются с точки
+                const dirs = fs.readdirSync(this.modulesDir, { withFileTypes: true })
+                    .filter(dirent => dirent.isDirectory() && !dirent.name.startsWith('.'))
+                    .map(dirent => path.join(this.modulesDir, dirent.name));
 
-                            writeStream.on('finish', () => {
-                                zipfile.readEntry();
-                            });
-                        });
-                    }
-                });
+                log.debug(`ModuleRegistry: Найдено ${dirs.length} потенциальных директорий модулей`);
 
-                zipfile.on('end', () => {
-                    resolve();
-                });
+                const { failed } = await this.loadModulesFromDirectories(dirs);
+                if (failed.length > 0) {
+                    vscode.window.showWarningMessage(`Не удалось загрузить модули: ${failed.join(', ')}`, 'Открыть журнал').then(action => {
+                        if (action === 'Открыть журнал') {
+                            showLog();
+                        }
+                    });
+                }
 
-                zipfile.on('error', (err: Error) => {
-                    reject(err);
-                });
+                // Выводим итоговый список загруженных модулей
+                const loadedModules = this.listModules();
+                log.debug(`ModuleRegistry: Завершено сканирование модулей. Загружено модулей: ${loadedModules.length}`);
+                for (const module of loadedModules) {
+                    log.debug(`  - Загружен модуль: id=${module.id}, name=${module.displayName}, version=${module.version}`);
+                }
 
-                zipfile.readEntry();
-            });
+            } catch (error) {
+                log.error(`ModuleRegistry: Ошибка при сканировании внешних модулей:`, error);
+            }
         });
     }
 
     /**
-     * Сканирование и загрузка всех внешних модулей из директории модулей
+     * Загрузка модулей из директорий в порядке их зависимостей.
+     * Уже загруженные и отключённые модули пропускаются.
+     * @param dirs Директории модулей
+     * @returns ID загруженных модулей и модулей, которые загрузить не удалось
      */
-    public async scanAndLoadExternalModules(): Promise<void> {
-        try {
-            logToFile(`ДИАГНОСТИКА: Начато сканирование внешних модулей в директории ${this.modulesDir}`);
-
-            // Проверяем существование директории
-            if (!fs.existsSync(this.modulesDir)) {
-                logToFile(`ОШИБКА: Директория модулей не существует, создаём её: ${this.modulesDir}`);
-                fs.mkdirSync(this.modulesDir, { recursive: true });
-                return;
-            }
+    private async loadModulesFromDirectories(dirs: string[]): Promise<{ loaded: string[]; failed: string[] }> {
+        // Читаем манифесты, чтобы построить граф зависимостей до загрузки модулей
+        const graph = new DependencyGraph();
+        for (const id of this.modules.keys()) {
+            graph.addModule(id, this.dependencyGraph.getDependencies(id));
+        }
 
-            // Получаем список всех файлов и директорий для подробной диагностики
-            logToFile(`ДИАГНОСТИКА: Содержимое директории модулей:`);
+        const dirsById = new Map<string, string>();
+        // Директории с некорректным манифестом: ID модуля в них неизвестен
+        const invalid: string[] = [];
+        for (const dir of dirs) {
+            let manifest: IModuleManifest;
             try {
-                const allEntries = fs.readdirSync(this.modulesDir);
-                for (const entry of allEntries) {
-                    const entryPath = path.join(this.modulesDir, entry);
-                    const stats = fs.statSync(entryPath);
-                    logToFile(`  - ${entry} [${stats.isDirectory() ? 'Директория' : 'Файл'}]`);
-
-                    // Если это директория, проверяем наличие package.json
-                    if (stats.isDirectory()) {
-                        const packageJsonPath = path.join(entryPath, 'package.json');
-                        if (fs.existsSync(packageJsonPath)) {
-                            try {
-                                const packageContent = fs.readFileSync(packageJsonPath, 'utf8');
-                                const packageJson = JSON.parse(packageContent);
-                                logToFile(`    - Найден package.json: id=${packageJson.id}, name=${packageJson.name}, version=${packageJson.version}`);
-                            } catch (e) {
-                                logToFile(`    - ОШИБКА чтения package.json: ${e}`);
-                            }
-                        } else {
-                            logToFile(`    - package.json отсутствует`);
-                        }
-                    }
-                }
+                manifest = readModuleManifest(dir).manifest;
             } catch (e) {
-                logToFile(`ОШИБКА при чтении содержимого директории модулей: ${e}`);
+                log.error(`ModuleRegistry: Модуль в ${dir} пропущен: ${e instanceof Error ? e.message : e}`);
+                invalid.push(path.basename(dir));
+                continue;
+            }
+
+            const moduleId = getManifestId(manifest);
+            if (this.modules.has(moduleId)) {
+                log.info(`ModuleRegistry: Модуль ${moduleId} уже загружен, пропускаем ${dir}`);
+                continue;
+            }
+            if (!this.stateStore.isEnabled(moduleId)) {
+                log.debug(`ModuleRegistry: Модуль ${moduleId} отключён (${this.stateStore.getDisabledScope(moduleId)}), пропускаем ${dir}`);
+                this.disabledModules.set(moduleId, {
+                    metadata: {
+                        id: moduleId,
+                        version: manifest.version,
+                        displayName: manifest.displayName || manifest.name || 'External Module',
+                        description: manifest.description || 'External module for Modular KB',
+                        dependencies: this.readManifestDependencies(manifest),
+                        enabled: false
+                    },
+                    modulePath: dir
+                });
+                continue;
+            }
+            if (dirsById.has(moduleId)) {
+                log.error(`ModuleRegistry: Модуль ${moduleId} найден в нескольких директориях (${dirsById.get(moduleId)}, ${dir}), используется первая`);
+                continue;
             }
 
-            // Получаем список поддиректорий для загрузки модулей
-            const dirs = fs.readdirSync(this.modulesDir, { withFileTypes: true })
-                .filter(dirent => dirent.isDirectory())
-                .map(dirent => path.join(this.modulesDir, dirent.name));
+            dirsById.set(moduleId, dir);
+            graph.addModule(moduleId, this.readManifestDependencies(manifest));
+        }
 
-            logToFile(`ДИАГНОСТИКА: Найдено ${dirs.length} потенциальных директорий модулей`);
+        const resolution = graph.resolve();
+        for (const cycle of resolution.cycles) {
+            log.error(`ModuleRegistry: Циклическая зависимость модулей: ${[...cycle, cycle[0]].join(' -> ')}`);
+        }
+        for (const [moduleId, missing] of resolution.missing) {
+            const described = missing.map(dependency => this.disabledModules.has(dependency) ? `${dependency} (отключён)` : dependency);
+            log.error(`ModuleRegistry: Модуль ${moduleId} требует отсутствующие модули: ${described.join(', ')}`);
+        }
+        const blocked: string[] = [];
+        for (const [moduleId, reason] of resolution.blocked) {
+            if (dirsById.has(moduleId)) {
+                blocked.push(moduleId);
+                log.error(`ModuleRegistry: Модуль ${moduleId} не будет загружен (${reason})`);
+            }
+        }
 
-            // Загружаем каждый модуль
-            for (const dir of dirs) {
-                logToFile(`ДИАГНОСТИКА: Попытка загрузки модуля из ${dir}`);
-                try {
-                    await this.loadExternalModule(dir);
-                    logToFile(`ДИАГНОСТИКА: Модуль из ${dir} успешно загружен`);
-                } catch (error) {
-                    logToFile(`ОШИБКА загрузки модуля из ${dir}: ${error}`);
-                    if (error instanceof Error) {
-                        logToFile(`ОШИБКА детали: ${error.message}`);
-                        logToFile(`ОШИБКА стек: ${error.stack}`);
-                    }
-                    // Продолжаем загрузку других модулей
-                }
+        // Загружаем модули в порядке зависимостей
+        const loaded: string[] = [];
+        const failed = new Set<string>();
+        for (const moduleId of resolution.order) {
+            const dir = dirsById.get(moduleId);
+            if (!dir) {
+                continue;
             }
 
-            // Выводим итоговый список загруженных модулей
-            const loadedModules = this.listModules();
-            logToFile(`ДИАГНОСТИКА: Завершено сканирование модулей. Загружено модулей: ${loadedModules.length}`);
-            for (const module of loadedModules) {
-                logToFile(`  - Загружен модуль: id=${module.id}, name=${module.displayName}, version=${module.version}`);
+            const failedDependency = graph.getDependencies(moduleId).find(dependency => failed.has(dependency));
+            if (failedDependency) {
+                log.error(`ModuleRegistry: Модуль ${moduleId} не будет загружен: не удалось загрузить зависимость ${failedDependency}`);
+                failed.add(moduleId);
+                continue;
             }
 
-        } catch (error) {
-            logToFile(`ОШИБКА при сканировании внешних модулей: ${error}`);
-            if (error instanceof Error) {
-                logToFile(`ОШИБКА детали: ${error.message}`);
-                logToFile(`ОШИБКА стек: ${error.stack}`);
+            log.debug(`ModuleRegistry: Попытка загрузки модуля из ${dir}`);
+            try {
+                await this.loadExternalModule(dir);
+                loaded.push(moduleId);
+                log.debug(`ModuleRegistry: Модуль из ${dir} успешно загружен`);
+            } catch (error) {
+                failed.add(moduleId);
+                log.error(`ModuleRegistry: Ошибка загрузки модуля из ${dir}:`, error);
+                // Продолжаем загрузку других модулей
             }
         }
+
+        return { loaded, failed: [...invalid, ...blocked, ...failed] };
     }
 }
@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+
+/**
+ * Область, в которой модуль отключён: для всех рабочих областей или только для текущей
+ */
+export type ModuleEnablementScope = 'global' | 'workspace';
+
+/**
+ * Хранилище отключённых модулей, сохраняемое между сессиями
+ */
+export class ModuleStateStore {
+    // Ключ, под которым список отключённых модулей хранится в globalState и workspaceState
+    private static readonly disabledModulesKey = 'modularKb.disabledModules';
+
+    constructor(private context: vscode.ExtensionContext) {
+    }
+
+    /**
+     * Проверка, включён ли модуль в текущей рабочей области
+     * @param id ID модуля
+     */
+    public isEnabled(id: string): boolean {
+        return this.getDisabledScope(id) === undefined;
+    }
+
+    /**
+     * Получение области, в которой модуль отключён
+     * @param id ID модуля
+     * @returns Область отключения или undefined, если модуль включён
+     */
+    public getDisabledScope(id: string): ModuleEnablementScope | undefined {
+        if (this.getDisabled('workspace').includes(id)) {
+            return 'workspace';
+        }
+        if (this.getDisabled('global').includes(id)) {
+            return 'global';
+        }
+        return undefined;
+    }
+
+    /**
+     * Отключение модуля
+     * @param id ID модуля
+     * @param scope Область отключения
+     */
+    public async disable(id: string, scope: ModuleEnablementScope): Promise<void> {
+        const disabled = this.getDisabled(scope);
+        if (!disabled.includes(id)) {
+            await this.getMemento(scope).update(ModuleStateStore.disabledModulesKey, [...disabled, id]);
+        }
+    }
+
+    /**
+     * Включение модуля во всех областях
+     * @param id ID модуля
+     */
+    public async enable(id: string): Promise<void> {
+        for (const scope of ['global', 'workspace'] as ModuleEnablementScope[]) {
+            const disabled = this.getDisabled(scope);
+            if (disabled.includes(id)) {
+                await this.getMemento(scope).update(ModuleStateStore.disabledModulesKey, disabled.filter(item => item !== id));
+            }
+        }
+    }
+
+    private getDisabled(scope: ModuleEnablementScope): string[] {
+        return this.getMemento(scope).get<string[]>(ModuleStateStore.disabledModulesKey, []);
+    }
+
+    private getMemento(scope: ModuleEnablementScope): vscode.Memento {
+        return scope === 'global' ? this.context.globalState : this.context.workspaceState;
+    }
+}
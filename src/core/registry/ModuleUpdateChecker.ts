@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { IModuleUpdate, ModuleRegistry } from './ModuleRegistry';
+import { log } from '../logging/Logger';
+
+/**
+ * Фоновая проверка обновлений установленных модулей по реестру
+ */
+export class ModuleUpdateChecker implements vscode.Disposable {
+    // Первая проверка откладывается, чтобы не замедлять запуск IDE
+    private static readonly startupDelay = 10000;
+    // setInterval не поддерживает интервалы длиннее 2^31-1 мс
+    private static readonly maxInterval = 0x7fffffff;
+
+    private startupTimer: NodeJS.Timeout | undefined;
+    private intervalTimer: NodeJS.Timeout | undefined;
+    private checking = false;
+    // Обновления, о которых пользователь уже уведомлён: уведомление повторяется только при появлении новых версий
+    private notifiedUpdates = '';
+
+    /**
+     * @param registry Реестр модулей
+     * @param intervalHours Интервал между проверками в часах
+     */
+    constructor(private registry: ModuleRegistry, private intervalHours: number) {
+    }
+
+    /**
+     * Запуск проверки при старте и затем периодически
+     */
+    public start(): void {
+        log.info(`ModuleUpdateChecker: Проверка обновлений модулей каждые ${this.intervalHours} ч`);
+        this.startupTimer = setTimeout(() => {
+            this.startupTimer = undefined;
+            this.check();
+        }, ModuleUpdateChecker.startupDelay);
+
+        const interval = Math.min(this.intervalHours * 60 * 60 * 1000, ModuleUpdateChecker.maxInterval);
+        this.intervalTimer = setInterval(() => this.check(), interval);
+    }
+
+    /**
+     * Остановка проверки
+     */
+    public dispose(): void {
+        if (this.startupTimer) {
+            clearTimeout(this.startupTimer);
+            this.startupTimer = undefined;
+        }
+        if (this.intervalTimer) {
+            clearInterval(this.intervalTimer);
+            this.intervalTimer = undefined;
+        }
+    }
+
+    /**
+     * Проверка обновлений и уведомление пользователя; ошибки сети только записываются в лог
+     * @returns Найденные обновления
+     */
+    public async check(): Promise<IModuleUpdate[]> {
+        if (this.checking) {
+            return [];
+        }
+
+        this.checking = true;
+        try {
+            const updates = await this.registry.checkForUpdates();
+            log.info(`ModuleUpdateChecker: Найдено обновлений модулей: ${updates.length}`);
+            this.notify(updates);
+            return updates;
+        } catch (error) {
+            log.warn('ModuleUpdateChecker: Не удалось проверить обновления модулей:', error);
+            return [];
+        } finally {
+            this.checking = false;
+        }
+    }
+
+    /**
+     * Уведомление о доступных обновлениях с переходом к команде обновления
+     * @param updates Найденные обновления
+     */
+    private notify(updates: IModuleUpdate[]): void {
+        const signature = updates.map(update => `${update.id}@${update.latestVersion}`).sort().join(',');
+        if (updates.length === 0 || signature === this.notifiedUpdates) {
+            return;
+        }
+        this.notifiedUpdates = signature;
+
+        vscode.window.showInformationMessage(`Доступны обновления модулей: ${updates.length}`, 'Обновить').then(action => {
+            if (action === 'Обновить') {
+                vscode.commands.executeCommand('modular-kb-vscode.updateModules');
+            }
+        });
+    }
+}
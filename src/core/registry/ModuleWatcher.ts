@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { IModuleSyncResult, ModuleRegistry } from './ModuleRegistry';
+import { log } from '../logging/Logger';
+
+/**
+ * Наблюдатель за директорией модулей: подхватывает добавленные, удалённые
+ * и изменённые модули без ручного сканирования
+ */
+export class ModuleWatcher implements vscode.Disposable {
+    // Служебные директории реестра: временные копии при установке, обновлении и откате и резервные копии
+    private static readonly internalNamePattern = /^\.(staging|previous|rollback)-|^\.backups$/;
+
+    private rootWatcher: fs.FSWatcher | undefined;
+    // Наблюдатели за директориями отдельных модулей (изменения манифестов)
+    private moduleWatchers: Map<string, fs.FSWatcher> = new Map();
+    private debounceTimer: NodeJS.Timeout | undefined;
+    private syncing = false;
+    private syncPending = false;
+
+    /**
+     * @param registry Реестр модулей
+     * @param delay Задержка (мс) после последнего изменения перед синхронизацией
+     */
+    constructor(private registry: ModuleRegistry, private delay: number) {
+    }
+
+    /**
+     * Запуск наблюдения за директорией модулей
+     */
+    public start(): void {
+        const modulesDir = this.registry.getModulesDirectory();
+        log.info(`ModuleWatcher: Наблюдение за директорией модулей ${modulesDir}`);
+
+        this.rootWatcher = fs.watch(modulesDir, (_, fileName) => {
+            // Реестр сам загружает модули, которые устанавливает через служебные директории
+            if (!fileName || !ModuleWatcher.internalNamePattern.test(fileName.toString())) {
+                this.scheduleSync();
+            }
+        });
+        this.rootWatcher.on('error', (error) => {
+            log.error('ModuleWatcher: Ошибка наблюдения за директорией модулей:', error);
+        });
+        this.updateModuleWatchers();
+    }
+
+    /**
+     * Остановка наблюдения
+     */
+    public dispose(): void {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = undefined;
+        }
+        this.rootWatcher?.close();
+        this.rootWatcher = undefined;
+        this.moduleWatchers.forEach(watcher => watcher.close());
+        this.moduleWatchers.clear();
+        log.info('ModuleWatcher: Наблюдение остановлено');
+    }
+
+    /**
+     * Откладывает синхронизацию, пока изменения не прекратятся на время задержки
+     */
+    private scheduleSync(): void {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = undefined;
+            this.sync();
+        }, this.delay);
+    }
+
+    private async sync(): Promise<void> {
+        // Изменения, пришедшие во время синхронизации, обрабатываются после её завершения
+        if (this.syncing) {
+            this.syncPending = true;
+            return;
+        }
+
+        this.syncing = true;
+        try {
+            const result = await this.registry.syncWithModulesDirectory();
+            this.report(result);
+        } catch (error) {
+            log.error('ModuleWatcher: Ошибка синхронизации модулей:', error);
+        } finally {
+            this.syncing = false;
+            this.updateModuleWatchers();
+        }
+
+        if (this.syncPending) {
+            this.syncPending = false;
+            this.scheduleSync();
+        }
+    }
+
+    /**
+     * Поддерживает наблюдателей для каждой поддиректории модулей
+     */
+    private updateModuleWatchers(): void {
+        if (!this.rootWatcher) {
+            return;
+        }
+
+        const modulesDir = this.registry.getModulesDirectory();
+        const dirs = new Set(fs.existsSync(modulesDir)
+            ? fs.readdirSync(modulesDir, { withFileTypes: true })
+                .filter(dirent => dirent.isDirectory() && !dirent.name.startsWith('.'))
+                .map(dirent => path.join(modulesDir, dirent.name))
+            : []);
+
+        for (const [dir, watcher] of this.moduleWatchers) {
+            if (!dirs.has(dir)) {
+                watcher.close();
+                this.moduleWatchers.delete(dir);
+            }
+        }
+
+        for (const dir of dirs) {
+            if (this.moduleWatchers.has(dir)) {
+                continue;
+            }
+            try {
+                const watcher = fs.watch(dir, () => this.scheduleSync());
+                // Директория может быть удалена раньше, чем наблюдатель будет закрыт
+                watcher.on('error', () => {
+                    watcher.close();
+                    this.moduleWatchers.delete(dir);
+                });
+                this.moduleWatchers.set(dir, watcher);
+            } catch (error) {
+                log.warn(`ModuleWatcher: Не удалось наблюдать за ${dir}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Уведомление пользователя о результатах синхронизации
+     * @param result Результат синхронизации
+     */
+    private report(result: IModuleSyncResult): void {
+        const changes: string[] = [];
+        if (result.added.length > 0) {
+            changes.push(`загружены: ${result.added.join(', ')}`);
+        }
+        if (result.removed.length > 0) {
+            changes.push(`выгружены: ${result.removed.join(', ')}`);
+        }
+        if (result.reloaded.length > 0) {
+            changes.push(`перезагружены: ${result.reloaded.join(', ')}`);
+        }
+
+        if (changes.length > 0) {
+            vscode.window.showInformationMessage(`Модули ${changes.join('; ')}`);
+        }
+        if (result.failed.length > 0) {
+            vscode.window.showWarningMessage(`Не удалось загрузить модули: ${result.failed.join('; ')}`);
+        }
+    }
+}
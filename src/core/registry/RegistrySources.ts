@@ -0,0 +1,169 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { log } from '../logging/Logger';
+import { isSafeModuleDirectoryName } from './ModuleManifest';
+
+/**
+ * Интерфейс для описания модуля в реестре
+ */
+export interface IModuleRegistryItem {
+    id: string;
+    version: string;
+    displayName: string;
+    description: string;
+    downloadUrl: string;
+    author: string;
+    // Массив ID модулей или объект { ID модуля: диапазон версий }
+    dependencies: string[] | Record<string, string>;
+    // Диапазоны версий хоста, например { "modularkb": ">=0.4.0" }
+    engines?: Record<string, string>;
+    // SHA-256 архива и отсоединённая подпись (base64) издателя
+    sha256?: string;
+    signature?: string;
+    publisher?: string;
+    // Имя источника реестра, из которого взят модуль
+    source?: string;
+    // Заполняется в getAvailableModules: совместим ли модуль с установленным окружением
+    compatible?: boolean;
+    incompatibilityReasons?: string[];
+}
+
+/**
+ * Интерфейс для реестра модулей
+ */
+export interface IModulesRegistry {
+    modules: IModuleRegistryItem[];
+}
+
+/**
+ * Источник реестра модулей (элемент настройки modularKb.registries)
+ */
+export interface IRegistrySource {
+    name: string;
+
+    /**
+     * URL реестра (https или http), file:// URL или путь к файлу реестра
+     */
+    url: string;
+
+    /**
+     * Дополнительные заголовки запросов, например Authorization для приватного реестра
+     */
+    headers?: Record<string, string>;
+}
+
+/**
+ * Публичный реестр модулей, используемый, если источники не настроены
+ */
+export const DEFAULT_REGISTRY_SOURCE: IRegistrySource = {
+    name: 'GitHub',
+    url: 'https://raw.githubusercontent.com/OleynikAleksandr/modular-kb-modules-registry/main/modules-registry.json'
+};
+
+/**
+ * Проверка, что адрес указывает на HTTP(S)-ресурс
+ * @param url Адрес
+ */
+export function isRemoteUrl(url: string): boolean {
+    return /^https?:\/\//i.test(url);
+}
+
+/**
+ * Путь в файловой системе для file:// URL или обычного пути
+ * @param url file:// URL или путь
+ */
+export function toLocalPath(url: string): string {
+    return url.startsWith('file://') ? fileURLToPath(url) : url;
+}
+
+/**
+ * Чтение источников реестра из значения настройки; некорректные элементы пропускаются
+ * @param value Значение настройки modularKb.registries
+ * @returns Источники в порядке приоритета
+ */
+export function readRegistrySources(value: unknown): IRegistrySource[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    const sources: IRegistrySource[] = [];
+    for (const entry of value) {
+        if (!entry || typeof entry.url !== 'string' || entry.url.trim().length === 0) {
+            continue;
+        }
+        const headers: Record<string, string> = {};
+        if (entry.headers && typeof entry.headers === 'object') {
+            for (const [name, headerValue] of Object.entries(entry.headers)) {
+                if (typeof headerValue === 'string') {
+                    headers[name] = headerValue;
+                }
+            }
+        }
+        sources.push({
+            name: typeof entry.name === 'string' && entry.name.length > 0 ? entry.name : entry.url,
+            url: entry.url.trim(),
+            headers
+        });
+    }
+    return sources;
+}
+
+/**
+ * Разрешение ссылки на архив модуля относительно адреса реестра
+ * @param downloadUrl Ссылка из реестра (абсолютная или относительная)
+ * @param sourceUrl Адрес реестра
+ * @returns URL или путь к архиву
+ */
+export function resolveDownloadUrl(downloadUrl: string, sourceUrl: string): string {
+    if (isRemoteUrl(downloadUrl)) {
+        return downloadUrl;
+    }
+    if (downloadUrl.startsWith('file://')) {
+        return fileURLToPath(downloadUrl);
+    }
+    if (isRemoteUrl(sourceUrl)) {
+        return new URL(downloadUrl, sourceUrl).toString();
+    }
+    return path.resolve(path.dirname(toLocalPath(sourceUrl)), downloadUrl);
+}
+
+/**
+ * Объединение реестров: модуль берётся из первого по порядку источника, в котором он есть.
+ * Модули, ID которых нельзя использовать как имя директории модуля, пропускаются.
+ * @param registries Реестры в порядке приоритета источников
+ * @returns Объединённый реестр с указанием источника каждого модуля
+ */
+export function mergeRegistries(registries: { source: IRegistrySource; registry: IModulesRegistry }[]): IModulesRegistry {
+    const merged = new Map<string, IModuleRegistryItem>();
+    for (const { source, registry } of registries) {
+        for (const item of registry.modules || []) {
+            if (!item || typeof item.id !== 'string' || merged.has(item.id)) {
+                continue;
+            }
+            // ID становится именем директории модуля и не должен выводить за пределы директории модулей
+            if (!isSafeModuleDirectoryName(item.id)) {
+                log.warn(`RegistrySources: Модуль с недопустимым ID "${item.id}" из реестра ${source.name} пропущен`);
+                continue;
+            }
+            merged.set(item.id, {
+                ...item,
+                downloadUrl: typeof item.downloadUrl === 'string' ? resolveDownloadUrl(item.downloadUrl, source.url) : item.downloadUrl,
+                source: source.name
+            });
+        }
+    }
+    return { modules: Array.from(merged.values()) };
+}
+
+/**
+ * Заголовки источника для загрузки архива модуля. Передаются только на тот же origin,
+ * что и реестр, чтобы токены приватного реестра не попадали на сторонние серверы.
+ * @param source Источник реестра
+ * @param downloadUrl Ссылка на архив
+ */
+export function getDownloadHeaders(source: IRegistrySource | undefined, downloadUrl: string): Record<string, string> {
+    if (!source?.headers || !isRemoteUrl(source.url) || !isRemoteUrl(downloadUrl)) {
+        return {};
+    }
+    return new URL(source.url).origin === new URL(downloadUrl).origin ? source.headers : {};
+}
@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yauzl from 'yauzl';
+import { Readable } from 'stream';
+import { log } from '../logging/Logger';
+
+/**
+ * Ограничения на распаковку архива модуля (защита от zip-бомб)
+ */
+export interface IZipExtractionLimits {
+    /**
+     * Максимальный суммарный размер распакованных файлов в байтах
+     */
+    maxUncompressedSize: number;
+
+    /**
+     * Максимальное количество записей в архиве
+     */
+    maxEntries: number;
+
+    /**
+     * Максимальное отношение распакованного размера записи к сжатому
+     */
+    maxCompressionRatio: number;
+}
+
+export const DEFAULT_ZIP_EXTRACTION_LIMITS: IZipExtractionLimits = {
+    maxUncompressedSize: 500 * 1024 * 1024,
+    maxEntries: 10000,
+    maxCompressionRatio: 100
+};
+
+// Тип файла в старших битах внешних атрибутов записи (Unix mode)
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+/**
+ * Ошибка распаковки архива с указанием отклонённой записи
+ */
+export class ZipExtractionError extends Error {
+    constructor(public readonly entryName: string | undefined, reason: string) {
+        super(entryName !== undefined ? `Запись архива "${entryName}" отклонена: ${reason}` : reason);
+        this.name = 'ZipExtractionError';
+    }
+}
+
+/**
+ * Проверка имени записи архива на выход за пределы директории распаковки
+ * @param fileName Имя записи
+ * @returns Причина отклонения или undefined, если имя безопасно
+ */
+export function validateZipEntryName(fileName: string): string | undefined {
+    if (fileName.length === 0) {
+        return 'пустое имя';
+    }
+    if (fileName.includes('\0')) {
+        return 'имя содержит нулевой символ';
+    }
+    if (fileName.startsWith('/') || fileName.startsWith('\\') || /^[a-zA-Z]:/.test(fileName)) {
+        return 'абсолютный путь';
+    }
+    if (fileName.split(/[\\/]/).includes('..')) {
+        return 'путь содержит ".."';
+    }
+    return undefined;
+}
+
+/**
+ * Проверка записи архива до её распаковки
+ * @param entry Запись архива
+ * @param extractPath Директория распаковки
+ * @param limits Ограничения распаковки
+ * @returns Причина отклонения или undefined
+ */
+function checkZipEntry(entry: yauzl.Entry, extractPath: string, limits: IZipExtractionLimits): string | undefined {
+    const nameProblem = validateZipEntryName(entry.fileName);
+    if (nameProblem) {
+        return nameProblem;
+    }
+
+    const root = path.resolve(extractPath);
+    const target = path.resolve(root, entry.fileName);
+    if (target !== root && !target.startsWith(root + path.sep)) {
+        return 'путь выходит за пределы директории распаковки';
+    }
+
+    if (((entry.externalFileAttributes >>> 16) & S_IFMT) === S_IFLNK) {
+        return 'символические ссылки не поддерживаются';
+    }
+
+    if (entry.compressedSize > 0 && entry.uncompressedSize / entry.compressedSize > limits.maxCompressionRatio) {
+        return `степень сжатия ${Math.round(entry.uncompressedSize / entry.compressedSize)} превышает допустимую ${limits.maxCompressionRatio}`;
+    }
+
+    return undefined;
+}
+
+/**
+ * Безопасная распаковка ZIP-архива: отклоняет записи с абсолютными путями, ".." и
+ * символическими ссылками, ограничивает размер и количество записей, сохраняет права файлов
+ * @param zipFilePath Путь к ZIP-архиву
+ * @param extractPath Путь для распаковки
+ * @param limits Ограничения распаковки
+ */
+export function extractZipSafely(
+    zipFilePath: string,
+    extractPath: string,
+    limits: IZipExtractionLimits = DEFAULT_ZIP_EXTRACTION_LIMITS
+): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        yauzl.open(zipFilePath, { lazyEntries: true, validateEntrySizes: true }, (err: Error | null, zipfile?: yauzl.ZipFile) => {
+            if (err || !zipfile) {
+                reject(new ZipExtractionError(undefined, `Не удалось открыть ZIP-архив: ${err ? err.message : zipFilePath}`));
+                return;
+            }
+
+            let failed = false;
+            let extractedBytes = 0;
+
+            const fail = (error: Error) => {
+                if (failed) {
+                    return;
+                }
+                failed = true;
+                try {
+                    zipfile.close();
+                } catch {
+                    // Архив уже закрыт
+                }
+                reject(error);
+            };
+
+            if (zipfile.entryCount > limits.maxEntries) {
+                fail(new ZipExtractionError(undefined, `Архив содержит ${zipfile.entryCount} записей, допустимо не более ${limits.maxEntries}`));
+                return;
+            }
+
+            zipfile.on('entry', (entry: yauzl.Entry) => {
+                const problem = checkZipEntry(entry, extractPath, limits);
+                if (problem) {
+                    fail(new ZipExtractionError(entry.fileName, problem));
+                    return;
+                }
+
+                const entryPath = path.resolve(extractPath, entry.fileName);
+
+                if (entry.fileName.endsWith('/')) {
+                    // Директория
+                    fs.mkdirSync(entryPath, { recursive: true });
+                    zipfile.readEntry();
+                    return;
+                }
+
+                if (extractedBytes + entry.uncompressedSize > limits.maxUncompressedSize) {
+                    fail(new ZipExtractionError(entry.fileName, `суммарный размер распакованных файлов превышает ${limits.maxUncompressedSize} байт`));
+                    return;
+                }
+
+                // Файл
+                fs.mkdirSync(path.dirname(entryPath), { recursive: true });
+                zipfile.openReadStream(entry, (streamError: Error | null, readStream?: Readable) => {
+                    if (streamError || !readStream) {
+                        fail(new ZipExtractionError(entry.fileName, streamError ? streamError.message : 'не удалось прочитать запись'));
+                        return;
+                    }
+
+                    const writeStream = fs.createWriteStream(entryPath);
+
+                    // Размеры в заголовках могут не соответствовать данным, поэтому считаем фактические байты
+                    readStream.on('data', (chunk: Buffer) => {
+                        extractedBytes += chunk.length;
+                        if (extractedBytes > limits.maxUncompressedSize) {
+                            readStream.destroy();
+                            writeStream.destroy();
+                            fail(new ZipExtractionError(entry.fileName, `суммарный размер распакованных файлов превышает ${limits.maxUncompressedSize} байт`));
+                        }
+                    });
+                    readStream.on('error', (error: Error) => {
+                        writeStream.destroy();
+                        fail(new ZipExtractionError(entry.fileName, error.message));
+                    });
+                    writeStream.on('error', (error: Error) => fail(new ZipExtractionError(entry.fileName, error.message)));
+
+                    writeStream.on('finish', () => {
+                        if (failed) {
+                            return;
+                        }
+
+                        // Сохраняем права доступа (в том числе исполняемость) для архивов, созданных в Unix
+                        const mode = (entry.externalFileAttributes >>> 16) & 0o777;
+                        if (mode !== 0 && (entry.versionMadeBy >> 8) === 3) {
+                            try {
+                                fs.chmodSync(entryPath, mode);
+                            } catch (error) {
+                                log.warn(`ZipExtractor: Не удалось установить права ${mode.toString(8)} для ${entryPath}:`, error);
+                            }
+                        }
+
+                        zipfile.readEntry();
+                    });
+
+                    readStream.pipe(writeStream);
+                });
+            });
+
+            zipfile.on('end', () => {
+                if (!failed) {
+                    resolve();
+                }
+            });
+
+            zipfile.on('error', (error: Error) => {
+                // yauzl сам отклоняет опасные имена записей раньше, чем они попадут в обработчик entry
+                const unsafeName = /^(absolute path|invalid relative path|invalid characters in fileName): (.*)$/.exec(error.message);
+                if (unsafeName) {
+                    fail(new ZipExtractionError(unsafeName[2], validateZipEntryName(unsafeName[2]) || 'недопустимое имя записи'));
+                } else {
+                    fail(new ZipExtractionError(undefined, `Повреждённый ZIP-архив: ${error.message}`));
+                }
+            });
+
+            zipfile.readEntry();
+        });
+    });
+}
@@ -1,12 +1,184 @@
 // The module 'vscode' contains the VS Code extensibility API
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
 import { ModuleRegistry } from './core/registry/ModuleRegistry';
+import { ModuleEnablementScope } from './core/registry/ModuleStateStore';
+import { ModuleWatcher } from './core/registry/ModuleWatcher';
+import { ModuleUpdateChecker } from './core/registry/ModuleUpdateChecker';
+import { isLockfileSatisfied, readLockfile } from './core/registry/ModuleLockfile';
 import { CoreManager } from './core/CoreManager';
+import { CoreSupervisor } from './core/CoreSupervisor';
+import { CoreStatusBar } from './core/CoreStatusBar';
+import { initializeLogging } from './core/logging/LogManager';
+import { log, showLog } from './core/logging/Logger';
 
 // Global module registry
 let moduleRegistry: ModuleRegistry;
 // Core manager
 let coreManager: CoreManager;
+// Наблюдатель за директорией модулей (включается настройкой modularKb.modules.autoDiscovery)
+let moduleWatcher: ModuleWatcher | undefined;
+// Фоновая проверка обновлений модулей (включается настройкой modularKb.updates.autoCheck)
+let updateChecker: ModuleUpdateChecker | undefined;
+// Перезапуск упавшего Core (включается настройкой modularKb.core.autoRestart)
+let coreSupervisor: CoreSupervisor | undefined;
+
+// Запуск или остановка наблюдателя за модулями в соответствии с настройками
+function updateModuleWatcher(): void {
+	const config = vscode.workspace.getConfiguration('modularKb.modules');
+	moduleWatcher?.dispose();
+	moduleWatcher = undefined;
+
+	if (config.get<boolean>('autoDiscovery', false)) {
+		try {
+			moduleWatcher = new ModuleWatcher(moduleRegistry, config.get<number>('autoDiscoveryDelay', 1000));
+			moduleWatcher.start();
+		} catch (error) {
+			log.error('Ошибка запуска наблюдателя за модулями:', error);
+			moduleWatcher = undefined;
+		}
+	}
+}
+
+// Запуск или остановка проверки обновлений модулей в соответствии с настройками
+function updateUpdateChecker(): void {
+	const config = vscode.workspace.getConfiguration('modularKb.updates');
+	updateChecker?.dispose();
+	updateChecker = undefined;
+
+	if (config.get<boolean>('autoCheck', true)) {
+		updateChecker = new ModuleUpdateChecker(moduleRegistry, config.get<number>('checkIntervalHours', 24));
+		updateChecker.start();
+	}
+}
+
+// Запуск или остановка наблюдения за процессом Core в соответствии с настройками
+function updateCoreSupervisor(): void {
+	const config = vscode.workspace.getConfiguration('modularKb.core');
+	coreSupervisor?.dispose();
+	coreSupervisor = undefined;
+
+	if (config.get<boolean>('autoRestart', true)) {
+		coreSupervisor = new CoreSupervisor(coreManager, config.get<number>('maxRestarts', 5));
+		coreSupervisor.start();
+	}
+}
+
+// Запуск Core с уведомлением о ходе запуска; отмена останавливает запускаемый процесс.
+// Ошибка запуска (с выводом stderr Core) передаётся вызывающему.
+function startCoreWithProgress(port: number): Thenable<void> {
+	return vscode.window.withProgress({
+		location: vscode.ProgressLocation.Notification,
+		title: 'KB Core',
+		cancellable: true
+	}, (progress, token) => coreManager.startCore(port, {
+		token,
+		onProgress: message => progress.report({ message })
+	}));
+}
+
+// Проверка наличия модуля KB.Orchestrator и автоматический запуск Core при старте IDE.
+// Вызывается без ожидания в конце активации, когда команды уже зарегистрированы;
+// ошибки запуска показываются уведомлением.
+async function autoStartCore(): Promise<void> {
+	try {
+		log.info('Проверка наличия модуля KB.Orchestrator...');
+		const isModuleInstalled = await coreManager.isOrchestratorModuleInstalled();
+
+		if (isModuleInstalled) {
+			log.info('Модуль KB.Orchestrator установлен');
+
+			// Проверяем доступность Core
+			const isCoreAvailable = await coreManager.isCoreAvailable();
+			if (isCoreAvailable) {
+				vscode.window.showInformationMessage('KB Core is running and ready to use');
+			} else {
+				// Автоматический запуск Core при старте IDE
+				log.info('Автоматический запуск KB Core...');
+
+				// Находим свободный порт
+				const port = await coreManager.findFreePort();
+
+				// Запускаем Core и ждём его готовности
+				try {
+					await startCoreWithProgress(port);
+
+					// Регистрируем MCP-сервер
+					const isRegistered = await coreManager.registerMcpServer(port);
+					if (isRegistered) {
+						vscode.window.showInformationMessage(`KB Core started automatically and running on port ${port}.`);
+					} else {
+						vscode.window.showErrorMessage('Failed to register MCP server. KB Core may not function properly.');
+					}
+				} catch (error) {
+					if (!(error instanceof vscode.CancellationError)) {
+						vscode.window.showErrorMessage(`Failed to start KB Core automatically. You can try to start it manually using "KB: Start Core" command. ${error instanceof Error ? error.message : error}`, 'Show Log').then(action => {
+							if (action === 'Show Log') {
+								showLog('core');
+							}
+						});
+					}
+				}
+			}
+		} else {
+			log.info('Модуль KB.Orchestrator не установлен');
+			vscode.window.showInformationMessage('KB Core module is not installed. Use "Modular KB: Install Module" command to install KB.Orchestrator module.');
+		}
+	} catch (error) {
+		log.error('Ошибка при проверке модуля KB.Orchestrator:', error);
+		vscode.window.showErrorMessage('Error checking KB.Orchestrator module');
+	}
+}
+
+// Описание прогресса загрузки архива модуля для уведомления withProgress
+function formatDownloadProgress(id: string, received: number, total: number | undefined): string {
+	const megabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+	return total
+		? `${id}: ${megabytes(received)} / ${megabytes(total)} МБ (${Math.floor(received * 100 / total)}%)`
+		: `${id}: ${megabytes(received)} МБ`;
+}
+
+// Предложение синхронизировать модули, если они не соответствуют lock-файлу рабочей области.
+// Для каждого содержимого lock-файла предложение показывается один раз.
+function checkModuleLockfile(context: vscode.ExtensionContext): void {
+	// Lock-файл недоверенной рабочей области может указывать на произвольный код
+	if (!vscode.workspace.isTrusted) {
+		return;
+	}
+	try {
+		const lockfilePath = moduleRegistry.getLockfilePath();
+		if (!lockfilePath || !fs.existsSync(lockfilePath)) {
+			return;
+		}
+		const diff = moduleRegistry.getLockfileDiff();
+		if (!diff || isLockfileSatisfied(diff)) {
+			return;
+		}
+
+		const lockfileHash = crypto.createHash('sha256').update(fs.readFileSync(lockfilePath)).digest('hex');
+		if (context.workspaceState.get<string>('modularKb.lockfilePrompted') === lockfileHash) {
+			return;
+		}
+		context.workspaceState.update('modularKb.lockfilePrompted', lockfileHash);
+
+		const changes = [
+			diff.install.length > 0 ? `установить: ${diff.install.join(', ')}` : '',
+			diff.update.length > 0 ? `обновить: ${diff.update.join(', ')}` : '',
+			diff.remove.length > 0 ? `удалить: ${diff.remove.join(', ')}` : ''
+		].filter(change => change.length > 0);
+		vscode.window.showInformationMessage(
+			`Модули не соответствуют lock-файлу рабочей области (${changes.join('; ')})`,
+			'Синхронизировать'
+		).then(action => {
+			if (action === 'Синхронизировать') {
+				vscode.commands.executeCommand('modular-kb-vscode.syncModulesFromLockfile');
+			}
+		});
+	} catch (error) {
+		log.error('Ошибка при проверке lock-файла модулей:', error);
+	}
+}
 
 // Синхронное создание директории modules
 function ensureModulesDirSyncExists(modulesPath: string): boolean {
@@ -16,23 +188,27 @@ function ensureModulesDirSyncExists(modulesPath: string): boolean {
 		if (!fs.existsSync(modulesPath)) {
 			// Создаем директорию синхронно
 			fs.mkdirSync(modulesPath, { recursive: true });
-			console.log(`Создана директория модулей: ${modulesPath}`);
+			log.info(`Создана директория модулей: ${modulesPath}`);
 		} else {
-			console.log(`Директория модулей уже существует: ${modulesPath}`);
+			log.info(`Директория модулей уже существует: ${modulesPath}`);
 		}
 		return true;
 	} catch (error) {
-		console.error(`Ошибка при создании директории модулей: ${error}`);
+		log.error(`Ошибка при создании директории модулей: ${error}`);
 		return false;
 	}
 }
 
 // This method is called when your extension is activated
 export async function activate(context: vscode.ExtensionContext) {
-	console.log('Активация расширения Modular KB...');
+	// Журналы создаются первыми, чтобы в них попали сообщения всех компонентов
+	const logManager = initializeLogging(context);
+	log.info('Активация расширения Modular KB...');
 
 	// Initialize Core manager for path resolution
 	coreManager = new CoreManager(context);
+	// Наблюдение за процессом Core начинается до его автоматического запуска
+	updateCoreSupervisor();
 
 	// Синхронно создаём директорию модулей до любых других действий
 	const modulesPathCreated = ensureModulesDirSyncExists(coreManager.modulesPath);
@@ -43,53 +219,14 @@ export async function activate(context: vscode.ExtensionContext) {
 	// Initialize module registry
 	moduleRegistry = new ModuleRegistry(context);
 
-	// Проверяем наличие модуля KB.Orchestrator и автоматически запускаем Core
-	try {
-		console.log('Проверка наличия модуля KB.Orchestrator...');
-		const isModuleInstalled = await coreManager.isOrchestratorModuleInstalled();
-
-		if (isModuleInstalled) {
-			console.log('Модуль KB.Orchestrator установлен');
-
-			// Проверяем доступность Core
-			const isCoreAvailable = await coreManager.isCoreAvailable();
-			if (isCoreAvailable) {
-				vscode.window.showInformationMessage('KB Core is running and ready to use');
-			} else {
-				// Автоматический запуск Core при старте IDE
-				console.log('Автоматический запуск KB Core...');
-				
-				// Находим свободный порт
-				const port = await coreManager.findFreePort();
-				
-				// Запускаем Core
-				const isStarted = await coreManager.startCore(port);
-				if (!isStarted) {
-					vscode.window.showErrorMessage('Failed to start KB Core automatically. You can try to start it manually using "KB: Start Core" command.');
-					return;
-				}
-				
-				// Регистрируем MCP-сервер
-				const isRegistered = await coreManager.registerMcpServer(port);
-				if (!isRegistered) {
-					vscode.window.showErrorMessage('Failed to register MCP server. KB Core may not function properly.');
-					return;
-				}
-				
-				vscode.window.showInformationMessage(`KB Core started automatically and running on port ${port}.`);
-			}
-		} else {
-			console.log('Модуль KB.Orchestrator не установлен');
-			vscode.window.showInformationMessage('KB Core module is not installed. Use "Modular KB: Install Module" command to install KB.Orchestrator module.');
-		}
-	} catch (error) {
-		console.error('Ошибка при проверке модуля KB.Orchestrator:', error);
-		vscode.window.showErrorMessage('Error checking KB.Orchestrator module');
-	}
+	// Строка состояния показывает состояние Core, в том числе во время автоматического запуска
+	const coreStatusBar = new CoreStatusBar(coreManager, moduleRegistry);
+	context.subscriptions.push(coreStatusBar);
+	coreStatusBar.start();
 
 	// Register command to scan and load new external modules
 	const scanModulesCommand = vscode.commands.registerCommand('modular-kb-vscode.scanModules', async () => {
-		console.log('Выполнена команда "modular-kb-vscode.scanModules"');
+		log.info('Выполнена команда "modular-kb-vscode.scanModules"');
 
 		try {
 			// Проверяем наличие модуля KB.Orchestrator
@@ -108,9 +245,12 @@ export async function activate(context: vscode.ExtensionContext) {
 				const port = await coreManager.findFreePort();
 
 				// Запускаем Core
-				const isStarted = await coreManager.startCore(port);
-				if (!isStarted) {
-					vscode.window.showErrorMessage('Failed to start KB Core. Operation canceled.');
+				try {
+					await startCoreWithProgress(port);
+				} catch (error) {
+					if (!(error instanceof vscode.CancellationError)) {
+						vscode.window.showErrorMessage(`Failed to start KB Core. Operation canceled. ${error instanceof Error ? error.message : error}`);
+					}
 					return;
 				}
 
@@ -156,32 +296,545 @@ export async function activate(context: vscode.ExtensionContext) {
 
 	// Register command to install module
 	const installModuleCommand = vscode.commands.registerCommand('modular-kb-vscode.installModule', async () => {
-		console.log('Выполнена команда "modular-kb-vscode.installModule"');
+		log.info('Выполнена команда "modular-kb-vscode.installModule"');
 
 		try {
-			// Используем новый метод installLocalModule для выбора и установки модуля
-			console.log('Вызываем метод installLocalModule');
+			// Используем новый метод installLocalModule для выбора и установки модуля;
+			// модуль загружается (или перезагружается) сразу, перезапуск окна не нужен
+			log.info('Вызываем метод installLocalModule');
 			await moduleRegistry.installLocalModule();
+		} catch (error) {
+			if (error instanceof Error) {
+				vscode.window.showErrorMessage(`Ошибка при установке модуля: ${error.message}`);
+			} else {
+				vscode.window.showErrorMessage(`Неизвестная ошибка при установке модуля`);
+			}
+		}
+	});
+
+	// Register command to install module from the modules registry
+	const installModuleFromRegistryCommand = vscode.commands.registerCommand('modular-kb-vscode.installModuleFromRegistry', async () => {
+		log.info('Выполнена команда "modular-kb-vscode.installModuleFromRegistry"');
+
+		try {
+			const available = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: 'Загрузка реестра модулей',
+				cancellable: false
+			}, () => moduleRegistry.getAvailableModules());
+			if (available.length === 0) {
+				vscode.window.showInformationMessage('Все модули из реестра уже установлены');
+				return;
+			}
+
+			const selected = await vscode.window.showQuickPick(
+				available.map(module => ({
+					label: module.compatible ? module.displayName : `$(warning) ${module.displayName}`,
+					description: [`${module.id} ${module.version}`, module.author, module.source].filter(Boolean).join(' · '),
+					detail: module.compatible
+						? module.description
+						: `Несовместим: ${(module.incompatibilityReasons ?? []).join('; ')}`,
+					moduleId: module.id
+				})),
+				{ placeHolder: 'Выберите модуль для установки', matchOnDescription: true, matchOnDetail: true }
+			);
+			if (!selected) {
+				return;
+			}
+
+			const installed = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: `Установка модуля ${selected.moduleId}`,
+				cancellable: true
+			}, (progress, token) => {
+				let currentId = selected.moduleId;
+				return moduleRegistry.installModuleFromRegistry(selected.moduleId, (id, index, total) => {
+					currentId = id;
+					progress.report({ message: `${id} (${index + 1}/${total})`, increment: 100 / total });
+				}, {
+					token,
+					onDownloadProgress: (received, total) => progress.report({ message: formatDownloadProgress(currentId, received, total) })
+				});
+			});
+
+			vscode.window.showInformationMessage(`Установлены модули: ${installed.join(', ')}`);
+		} catch (error) {
+			if (error instanceof vscode.CancellationError) {
+				vscode.window.showInformationMessage('Установка модуля отменена');
+			} else if (error instanceof Error) {
+				vscode.window.showErrorMessage(`Ошибка при установке модуля: ${error.message}`);
+			} else {
+				vscode.window.showErrorMessage(`Неизвестная ошибка при установке модуля`);
+			}
+		}
+	});
+
+	// Register command to uninstall module
+	const uninstallModuleCommand = vscode.commands.registerCommand('modular-kb-vscode.uninstallModule', async () => {
+		log.info('Выполнена команда "modular-kb-vscode.uninstallModule"');
+
+		try {
+			const modules = moduleRegistry.listModules();
+			if (modules.length === 0) {
+				vscode.window.showInformationMessage('Нет установленных модулей');
+				return;
+			}
+
+			const selected = await vscode.window.showQuickPick(
+				modules.map(module => ({
+					label: module.displayName,
+					description: `${module.id} ${module.version}`,
+					detail: module.description,
+					moduleId: module.id
+				})),
+				{ placeHolder: 'Выберите модуль для удаления' }
+			);
+			if (!selected) {
+				return;
+			}
+
+			// Проверяем, не используют ли модуль другие установленные модули
+			const dependents = moduleRegistry.getDependentModules(selected.moduleId);
+			let cascade = false;
+			if (dependents.length > 0) {
+				const action = await vscode.window.showWarningMessage(
+					`От модуля ${selected.moduleId} зависят модули: ${dependents.join(', ')}. Удалить их вместе с ним?`,
+					{ modal: true },
+					'Удалить вместе с зависимыми'
+				);
+				if (action !== 'Удалить вместе с зависимыми') {
+					return;
+				}
+				cascade = true;
+			} else {
+				const action = await vscode.window.showWarningMessage(
+					`Удалить модуль ${selected.moduleId}?`,
+					{ modal: true },
+					'Удалить'
+				);
+				if (action !== 'Удалить') {
+					return;
+				}
+			}
+
+			// Процесс Core держит файлы модуля kb-core, поэтому останавливаем его перед удалением
+			if (selected.moduleId === 'kb-core' || dependents.includes('kb-core')) {
+				await coreManager.stopCore();
+			}
+
+			const removed = await moduleRegistry.uninstallModule(selected.moduleId, cascade);
+			vscode.window.showInformationMessage(`Удалены модули: ${removed.join(', ')}`);
+		} catch (error) {
+			if (error instanceof Error) {
+				vscode.window.showErrorMessage(`Ошибка при удалении модуля: ${error.message}`);
+			} else {
+				vscode.window.showErrorMessage(`Неизвестная ошибка при удалении модуля`);
+			}
+		}
+	});
+
+	// Register command to disable module
+	const disableModuleCommand = vscode.commands.registerCommand('modular-kb-vscode.disableModule', async () => {
+		log.info('Выполнена команда "modular-kb-vscode.disableModule"');
+
+		try {
+			const modules = moduleRegistry.listModules().filter(module => module.enabled);
+			if (modules.length === 0) {
+				vscode.window.showInformationMessage('Нет включённых модулей');
+				return;
+			}
+
+			const selected = await vscode.window.showQuickPick(
+				modules.map(module => ({
+					label: module.displayName,
+					description: `${module.id} ${module.version}`,
+					detail: module.description,
+					moduleId: module.id
+				})),
+				{ placeHolder: 'Выберите модуль для отключения' }
+			);
+			if (!selected) {
+				return;
+			}
+
+			// Как и для расширений VS Code, модуль можно отключить глобально или только для рабочей области
+			const scopes: { label: string; scope: ModuleEnablementScope }[] = [{ label: 'Отключить', scope: 'global' }];
+			if (vscode.workspace.workspaceFolders?.length) {
+				scopes.push({ label: 'Отключить (рабочая область)', scope: 'workspace' });
+			}
+			const scope = scopes.length > 1
+				? await vscode.window.showQuickPick(scopes, { placeHolder: `Где отключить модуль ${selected.moduleId}?` })
+				: scopes[0];
+			if (!scope) {
+				return;
+			}
+
+			const dependents = moduleRegistry.getDependentModules(selected.moduleId);
+			if (dependents.length > 0) {
+				const action = await vscode.window.showWarningMessage(
+					`От модуля ${selected.moduleId} зависят модули: ${dependents.join(', ')}. Отключить их вместе с ним?`,
+					{ modal: true },
+					'Отключить вместе с зависимыми'
+				);
+				if (action !== 'Отключить вместе с зависимыми') {
+					return;
+				}
+			}
+
+			const disabled = await moduleRegistry.disableModule(selected.moduleId, scope.scope, dependents.length > 0);
+			vscode.window.showInformationMessage(`Отключены модули: ${disabled.join(', ')}`);
+		} catch (error) {
+			if (error instanceof Error) {
+				vscode.window.showErrorMessage(`Ошибка при отключении модуля: ${error.message}`);
+			} else {
+				vscode.window.showErrorMessage(`Неизвестная ошибка при отключении модуля`);
+			}
+		}
+	});
+
+	// Register command to enable module
+	const enableModuleCommand = vscode.commands.registerCommand('modular-kb-vscode.enableModule', async () => {
+		log.info('Выполнена команда "modular-kb-vscode.enableModule"');
+
+		try {
+			const modules = moduleRegistry.listModules().filter(module => !module.enabled);
+			if (modules.length === 0) {
+				vscode.window.showInformationMessage('Нет отключённых модулей');
+				return;
+			}
+
+			const selected = await vscode.window.showQuickPick(
+				modules.map(module => ({
+					label: module.displayName,
+					description: `${module.id} ${module.version}`,
+					detail: module.description,
+					moduleId: module.id
+				})),
+				{ placeHolder: 'Выберите модуль для включения' }
+			);
+			if (!selected) {
+				return;
+			}
+
+			await moduleRegistry.enableModule(selected.moduleId);
+			vscode.window.showInformationMessage(`Модуль ${selected.moduleId} включён`);
+		} catch (error) {
+			if (error instanceof Error) {
+				vscode.window.showErrorMessage(`Ошибка при включении модуля: ${error.message}`);
+			} else {
+				vscode.window.showErrorMessage(`Неизвестная ошибка при включении модуля`);
+			}
+		}
+	});
+
+	// Register command to reload module from disk
+	const reloadModuleCommand = vscode.commands.registerCommand('modular-kb-vscode.reloadModule', async () => {
+		log.info('Выполнена команда "modular-kb-vscode.reloadModule"');
+
+		try {
+			const modules = moduleRegistry.listModules().filter(module => module.enabled);
+			if (modules.length === 0) {
+				vscode.window.showInformationMessage('Нет загруженных модулей');
+				return;
+			}
+
+			const selected = await vscode.window.showQuickPick(
+				modules.map(module => ({
+					label: module.displayName,
+					description: `${module.id} ${module.version}`,
+					detail: module.dependencies?.length ? `Зависит от: ${module.dependencies.join(', ')}` : undefined,
+					moduleId: module.id
+				})),
+				{ placeHolder: 'Выберите модуль для перезагрузки' }
+			);
+			if (!selected) {
+				return;
+			}
+
+			const reloaded = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: `Перезагрузка модуля ${selected.moduleId}`,
+				cancellable: false
+			}, () => moduleRegistry.reloadModule(selected.moduleId));
+
+			vscode.window.showInformationMessage(`Перезагружены модули: ${reloaded.join(', ')}`);
+		} catch (error) {
+			if (error instanceof Error) {
+				vscode.window.showErrorMessage(`Ошибка при перезагрузке модуля: ${error.message}`);
+			} else {
+				vscode.window.showErrorMessage(`Неизвестная ошибка при перезагрузке модуля`);
+			}
+		}
+	});
+
+	// Register command to restore the previous version of a module
+	const rollbackModuleCommand = vscode.commands.registerCommand('modular-kb-vscode.rollbackModule', async () => {
+		log.info('Выполнена команда "modular-kb-vscode.rollbackModule"');
+
+		try {
+			const backups = moduleRegistry.listModuleBackups();
+			if (backups.length === 0) {
+				vscode.window.showInformationMessage('Нет резервных копий модулей для отката');
+				return;
+			}
+
+			const selected = await vscode.window.showQuickPick(
+				backups.map(backup => ({
+					label: backup.moduleName,
+					description: `${backup.currentVersion ?? 'не установлен'} → ${backup.backupVersion}`,
+					moduleName: backup.moduleName
+				})),
+				{ placeHolder: 'Выберите модуль для отката к предыдущей версии' }
+			);
+			if (!selected) {
+				return;
+			}
+
+			await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: `Откат модуля ${selected.moduleName}`,
+				cancellable: false
+			}, () => moduleRegistry.rollbackModule(selected.moduleName));
+
+			vscode.window.showInformationMessage(`Модуль ${selected.moduleName} откачен к предыдущей версии`);
+		} catch (error) {
+			if (error instanceof Error) {
+				vscode.window.showErrorMessage(`Ошибка при откате модуля: ${error.message}`);
+			} else {
+				vscode.window.showErrorMessage(`Неизвестная ошибка при откате модуля`);
+			}
+		}
+	});
+
+	// Register command to update installed modules from the registry
+	const updateModulesCommand = vscode.commands.registerCommand('modular-kb-vscode.updateModules', async () => {
+		log.info('Выполнена команда "modular-kb-vscode.updateModules"');
+
+		try {
+			const updates = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: 'Проверка обновлений модулей',
+				cancellable: false
+			}, () => moduleRegistry.checkForUpdates());
+			if (updates.length === 0) {
+				vscode.window.showInformationMessage('Все модули обновлены до последних версий');
+				return;
+			}
+
+			const selected = await vscode.window.showQuickPick(
+				updates.map(update => ({
+					label: update.displayName,
+					description: `${update.id} ${update.currentVersion} → ${update.latestVersion}${update.source ? ` · ${update.source}` : ''}`,
+					detail: update.compatible
+						? update.requiredUpdates.length > 0 ? `Вместе с обновлением: ${update.requiredUpdates.join(', ')}` : undefined
+						: `Несовместим: ${update.incompatibilityReasons.join('; ')}`,
+					picked: update.compatible,
+					moduleId: update.id
+				})),
+				{ placeHolder: 'Выберите модули для обновления', canPickMany: true }
+			);
+			if (!selected || selected.length === 0) {
+				return;
+			}
+
+			// Процесс Core держит файлы модуля kb-core, поэтому останавливаем его перед обновлением,
+			// в том числе когда kb-core обновляется как зависимость выбранного модуля
+			const ids = selected.map(item => item.moduleId);
+			const requiredUpdates = updates.filter(update => ids.includes(update.id)).flatMap(update => update.requiredUpdates);
+			if (ids.includes('kb-core') || requiredUpdates.includes('kb-core')) {
+				await coreManager.stopCore();
+			}
+
+			const result = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: 'Обновление модулей',
+				cancellable: true
+			}, (progress, token) => {
+				let currentId = ids[0];
+				return moduleRegistry.updateModules(ids, (id, index, total) => {
+					currentId = id;
+					progress.report({ message: `${id} (${index + 1}/${total})`, increment: 100 / total });
+				}, {
+					token,
+					onDownloadProgress: (received, total) => progress.report({ message: formatDownloadProgress(currentId, received, total) })
+				});
+			});
+
+			if (result.updated.length > 0) {
+				const added = result.addedDependencies.filter(id => result.updated.includes(id));
+				vscode.window.showInformationMessage(`Обновлены модули: ${result.updated.join(', ')}${added.length > 0 ? ` (вместе с выбранными обновлены зависимости: ${added.join(', ')})` : ''}`);
+			}
+			if (result.failed.length > 0) {
+				vscode.window.showWarningMessage(`Не удалось обновить модули: ${result.failed.join('; ')}`);
+			}
+		} catch (error) {
+			if (error instanceof Error) {
+				vscode.window.showErrorMessage(`Ошибка при обновлении модулей: ${error.message}`);
+			} else {
+				vscode.window.showErrorMessage(`Неизвестная ошибка при обновлении модулей`);
+			}
+		}
+	});
+
+	// Register command to purge the registry and module archive cache
+	const clearModuleCacheCommand = vscode.commands.registerCommand('modular-kb-vscode.clearModuleCache', async () => {
+		log.info('Выполнена команда "modular-kb-vscode.clearModuleCache"');
 
-			// Показываем сообщение о необходимости перезапуска
+		try {
+			const freed = await moduleRegistry.clearCache();
+			vscode.window.showInformationMessage(`Кэш модулей очищен (${(freed / (1024 * 1024)).toFixed(1)} МБ)`);
+		} catch (error) {
+			if (error instanceof Error) {
+				vscode.window.showErrorMessage(`Ошибка при очистке кэша модулей: ${error.message}`);
+			} else {
+				vscode.window.showErrorMessage(`Неизвестная ошибка при очистке кэша модулей`);
+			}
+		}
+	});
+
+	// Register command to write the workspace module lockfile
+	const generateModuleLockfileCommand = vscode.commands.registerCommand('modular-kb-vscode.generateModuleLockfile', async () => {
+		log.info('Выполнена команда "modular-kb-vscode.generateModuleLockfile"');
+
+		try {
+			const lockfile = moduleRegistry.generateLockfile();
+			const unresolved = Object.entries(lockfile.modules)
+				.filter(([, locked]) => !locked.resolved)
+				.map(([id]) => id);
+			const lockfilePath = moduleRegistry.getLockfilePath()!;
 			const action = await vscode.window.showInformationMessage(
-				'Модуль успешно установлен. Рекомендуется перезапустить VS Code.',
-				'Перезапустить сейчас',
-				'Позже'
+				`Lock-файл модулей создан: ${Object.keys(lockfile.modules).length} модулей`
+					+ (unresolved.length > 0 ? `. Источник неизвестен и не будет установлен автоматически: ${unresolved.join(', ')}` : ''),
+				'Открыть'
 			);
+			if (action === 'Открыть') {
+				await vscode.window.showTextDocument(vscode.Uri.file(lockfilePath));
+			}
+		} catch (error) {
+			if (error instanceof Error) {
+				vscode.window.showErrorMessage(`Ошибка при создании lock-файла модулей: ${error.message}`);
+			} else {
+				vscode.window.showErrorMessage(`Неизвестная ошибка при создании lock-файла модулей`);
+			}
+		}
+	});
+
+	// Register command to install, update and remove modules to match the workspace lockfile
+	const syncModulesFromLockfileCommand = vscode.commands.registerCommand('modular-kb-vscode.syncModulesFromLockfile', async () => {
+		log.info('Выполнена команда "modular-kb-vscode.syncModulesFromLockfile"');
+
+		if (!vscode.workspace.isTrusted) {
+			vscode.window.showWarningMessage('Синхронизация модулей с lock-файлом недоступна в недоверенной рабочей области: модули из lock-файла содержат исполняемый код');
+			return;
+		}
+
+		try {
+			const diff = moduleRegistry.getLockfileDiff();
+			if (!diff) {
+				vscode.window.showWarningMessage('Lock-файл модулей не найден в рабочей области. Создайте его командой "Modular KB: Generate Module Lockfile"');
+				return;
+			}
+			if (isLockfileSatisfied(diff)) {
+				vscode.window.showInformationMessage('Установленные модули соответствуют lock-файлу');
+				return;
+			}
+
+			// Адреса модулей берутся из файла рабочей области, поэтому перед загрузкой показываем их пользователю
+			const changed = [...diff.install, ...diff.update];
+			if (changed.length > 0) {
+				const lockfile = readLockfile(moduleRegistry.getLockfilePath()!);
+				const sources = changed.map(id => `${id}: ${lockfile?.modules[id]?.resolved ?? 'источник не указан'}`);
+				const action = await vscode.window.showWarningMessage(
+					'Установить модули из источников, указанных в lock-файле рабочей области? Модули содержат исполняемый код.',
+					{ modal: true, detail: sources.join('\n') },
+					'Синхронизировать'
+				);
+				if (action !== 'Синхронизировать') {
+					return;
+				}
+			}
 
-			if (action === 'Перезапустить сейчас') {
-				vscode.commands.executeCommand('workbench.action.reloadWindow');
+			// Процесс Core держит файлы модуля kb-core, поэтому останавливаем его перед заменой
+			if ([...diff.update, ...diff.remove].includes('kb-core')) {
+				await coreManager.stopCore();
+			}
+
+			const result = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: 'Синхронизация модулей с lock-файлом',
+				cancellable: true
+			}, (progress, token) => {
+				let currentId = '';
+				return moduleRegistry.syncModulesFromLockfile((id, index, total) => {
+					currentId = id;
+					progress.report({ message: `${id} (${index + 1}/${total})`, increment: 100 / total });
+				}, {
+					token,
+					onDownloadProgress: (received, total) => progress.report({ message: formatDownloadProgress(currentId, received, total) })
+				});
+			});
+
+			const changes = [
+				result.installed.length > 0 ? `установлены ${result.installed.join(', ')}` : '',
+				result.removed.length > 0 ? `удалены ${result.removed.join(', ')}` : ''
+			].filter(change => change.length > 0);
+			if (changes.length > 0) {
+				vscode.window.showInformationMessage(`Модули синхронизированы с lock-файлом: ${changes.join('; ')}`);
+			}
+			if (result.failed.length > 0) {
+				vscode.window.showWarningMessage(`Не удалось синхронизировать модули: ${result.failed.join('; ')}`);
 			}
 		} catch (error) {
 			if (error instanceof Error) {
-				vscode.window.showErrorMessage(`Ошибка при установке модуля: ${error.message}`);
+				vscode.window.showErrorMessage(`Ошибка при синхронизации модулей с lock-файлом: ${error.message}`);
 			} else {
-				vscode.window.showErrorMessage(`Неизвестная ошибка при установке модуля`);
+				vscode.window.showErrorMessage(`Неизвестная ошибка при синхронизации модулей с lock-файлом`);
 			}
 		}
 	});
 
+	// Register command to show module lifecycle states
+	const showModuleStatusCommand = vscode.commands.registerCommand('modular-kb-vscode.showModuleStatus', async () => {
+		const modules = moduleRegistry.listModules();
+		if (modules.length === 0) {
+			vscode.window.showInformationMessage('Нет установленных модулей');
+			return;
+		}
+
+		const stateIcons: Record<string, string> = {
+			initializing: '$(loading~spin)',
+			initialized: '$(circle-outline)',
+			activating: '$(loading~spin)',
+			active: '$(pass)',
+			deactivating: '$(loading~spin)',
+			deactivated: '$(debug-stop)',
+			failed: '$(error)',
+			disabled: '$(circle-slash)'
+		};
+
+		await vscode.window.showQuickPick(
+			modules.map(module => {
+				const state = module.enabled ? (module.state ?? 'unknown') : 'disabled';
+				const details = [];
+				if (module.activationDurationMs !== undefined) {
+					details.push(`активация ${module.activationDurationMs} мс`);
+				}
+				if (module.stateChangedAt !== undefined) {
+					details.push(`с ${new Date(module.stateChangedAt).toLocaleTimeString()}`);
+				}
+				if (module.lastError) {
+					details.push(`ошибка (${module.failedPhase ?? 'unknown'}): ${module.lastError}`);
+				}
+				return {
+					label: `${stateIcons[state] ?? '$(question)'} ${module.displayName}`,
+					description: `${module.id} ${module.version} - ${state}`,
+					detail: details.join(', ') || undefined
+				};
+			}),
+			{ placeHolder: 'Состояние модулей' }
+		);
+	});
+
 	// Register command to start Core (Always-IDE)
 	const startCoreCommand = vscode.commands.registerCommand('kb.startCore', async () => {
 		try {
@@ -195,13 +848,10 @@ export async function activate(context: vscode.ExtensionContext) {
 				vscode.window.showInformationMessage('kb-core is already running.');
 				return;
 			}
+			// Запуск пользователем сбрасывает историю падений Core
+			coreSupervisor?.reset();
 			const port = await coreManager.findFreePort();
-			vscode.window.showInformationMessage('Starting kb-core...');
-			const isStarted = await coreManager.startCore(port);
-			if (!isStarted) {
-				vscode.window.showErrorMessage('Failed to start kb-core.');
-				return;
-			}
+			await startCoreWithProgress(port);
 			const isRegistered = await coreManager.registerMcpServer(port);
 			if (!isRegistered) {
 				vscode.window.showErrorMessage('Failed to register MCP server.');
@@ -209,39 +859,117 @@ export async function activate(context: vscode.ExtensionContext) {
 			}
 			vscode.window.showInformationMessage(`kb-core started and running on port ${port}.`);
 		} catch (error) {
-			vscode.window.showErrorMessage(`Error starting kb-core: ${error instanceof Error ? error.message : error}`);
+			if (error instanceof vscode.CancellationError) {
+				return;
+			}
+			vscode.window.showErrorMessage(`Error starting kb-core: ${error instanceof Error ? error.message : error}`, 'Show Log').then(action => {
+				if (action === 'Show Log') {
+					showLog('core');
+				}
+			});
 		}
 	});
 
 	// Register command to stop Core (Always-IDE)
 	const stopCoreCommand = vscode.commands.registerCommand('kb.stopCore', async () => {
 		try {
-			coreManager.stopCore();
+			// Остановить можно только Core, запущенный этим окном IDE
+			if (!coreManager.isCoreProcessRunning() && coreManager.getCoreState() !== 'stopping') {
+				vscode.window.showInformationMessage(await coreManager.isCoreAvailable()
+					? 'kb-core was started by another window and can only be stopped there.'
+					: 'kb-core is not running.');
+				return;
+			}
+			await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: 'Stopping kb-core...',
+				cancellable: false
+			}, () => coreManager.stopCore());
 			vscode.window.showInformationMessage('kb-core stopped.');
 		} catch (error) {
 			vscode.window.showErrorMessage(`Error stopping kb-core: ${error instanceof Error ? error.message : error}`);
 		}
 	});
 
+	// Register command to restart Core (остановка с удалением MCP-сервера и запуск на новом порту)
+	const restartCoreCommand = vscode.commands.registerCommand('kb.restartCore', async () => {
+		try {
+			if (!coreManager.isCoreProcessRunning() && await coreManager.isCoreAvailable()) {
+				vscode.window.showInformationMessage('kb-core was started by another window and can only be restarted there.');
+				return;
+			}
+			await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: 'Stopping kb-core...',
+				cancellable: false
+			}, () => coreManager.stopCore());
+			await vscode.commands.executeCommand('kb.startCore');
+		} catch (error) {
+			vscode.window.showErrorMessage(`Error restarting kb-core: ${error instanceof Error ? error.message : error}`);
+		}
+	});
+
 	// Register all commands
 	context.subscriptions.push(
 		scanModulesCommand,
 		installModuleCommand,
+		installModuleFromRegistryCommand,
+		uninstallModuleCommand,
+		disableModuleCommand,
+		enableModuleCommand,
+		reloadModuleCommand,
+		rollbackModuleCommand,
+		updateModulesCommand,
+		clearModuleCacheCommand,
+		generateModuleLockfileCommand,
+		syncModulesFromLockfileCommand,
+		showModuleStatusCommand,
 		startCoreCommand,
-		stopCoreCommand
+		stopCoreCommand,
+		restartCoreCommand
 	);
 
 	// Scan and load external modules on startup
 	try {
-		console.log('Автоматическая загрузка модулей при запуске...');
+		log.info('Автоматическая загрузка модулей при запуске...');
 		await moduleRegistry.scanAndLoadExternalModules();
 		const modules = moduleRegistry.listModules();
-		console.log(`Загружено модулей при запуске: ${modules.length}`);
+		log.info(`Загружено модулей при запуске: ${modules.length}`);
 	} catch (error) {
-		console.error('Ошибка сканирования модулей при запуске:', error);
+		log.error('Ошибка сканирования модулей при запуске:', error);
 	}
 
-	console.log('Расширение Modular KB активировано');
+	// Сравнение установленных модулей с lock-файлом рабочей области
+	checkModuleLockfile(context);
+
+	// Автоматическое обнаружение модулей в директории модулей
+	updateModuleWatcher();
+	// Проверка обновлений модулей по реестру
+	updateUpdateChecker();
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration('modularKb.modules')) {
+				updateModuleWatcher();
+			}
+			if (event.affectsConfiguration('modularKb.updates')) {
+				updateUpdateChecker();
+			}
+			if (event.affectsConfiguration('modularKb.core')) {
+				updateCoreSupervisor();
+			}
+			if (event.affectsConfiguration('modularKb.logging')) {
+				logManager.updateConfiguration();
+			}
+		}),
+		{ dispose: () => moduleWatcher?.dispose() },
+		{ dispose: () => updateChecker?.dispose() },
+		{ dispose: () => coreSupervisor?.dispose() }
+	);
+
+	// Core запускается в фоне, чтобы ожидание его готовности не задерживало активацию
+	void autoStartCore();
+
+	log.info('Расширение Modular KB активировано');
 }
 
 // This method is called when your extension is deactivated
@@ -253,7 +981,7 @@ export async function deactivate() {
 
 	// Останавливаем Core процесс при закрытии IDE (Always-IDE модель)
 	if (coreManager) {
-		console.log('Останавливаем KB Core процесс при деактивации расширения...');
-		coreManager.stopCore();
+		log.info('Останавливаем KB Core процесс при деактивации расширения...');
+		await coreManager.stopCore();
 	}
 }
@@ -1,5 +1,4 @@
-import * as vscode from 'vscode';
-import { IModule, IModuleRegistry } from '../../core/interfaces/module';
+import { IModule, IModuleContext, IModuleRegistry } from '../../core/interfaces/module';
 
 /**
  * Test module for demonstrating ModuleRegistry functionality
@@ -10,13 +9,13 @@ export class TestModule implements IModule {
     public displayName: string = 'Test Module';
     public description: string = 'Demonstration module for testing ModuleRegistry functionality';
     
-    private context: vscode.ExtensionContext | undefined;
+    private context: IModuleContext | undefined;
     private registry: IModuleRegistry | undefined;
     
     /**
      * Initialize the module
      */
-    public async initialize(context: vscode.ExtensionContext, registry: IModuleRegistry): Promise<void> {
+    public async initialize(context: IModuleContext, registry: IModuleRegistry): Promise<void> {
         this.context = context;
         this.registry = registry;
         
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+
+import { DependencyGraph } from '../core/registry/DependencyGraph';
+
+suite('DependencyGraph Test Suite', () => {
+	test('Orders dependencies before dependents', () => {
+		const graph = new DependencyGraph();
+		graph.addModule('c-module', ['b-module']);
+		graph.addModule('b-module', ['a-module']);
+		graph.addModule('a-module');
+
+		const resolution = graph.resolve();
+
+		assert.deepStrictEqual(resolution.order, ['a-module', 'b-module', 'c-module']);
+		assert.strictEqual(resolution.blocked.size, 0);
+	});
+
+	test('Reports cycles and blocks modules depending on them', () => {
+		const graph = new DependencyGraph();
+		graph.addModule('a-module', ['b-module']);
+		graph.addModule('b-module', ['a-module']);
+		graph.addModule('c-module', ['a-module']);
+		graph.addModule('d-module');
+
+		const resolution = graph.resolve();
+
+		assert.deepStrictEqual(resolution.order, ['d-module']);
+		assert.deepStrictEqual(resolution.cycles, [['a-module', 'b-module']]);
+		assert.ok(resolution.blocked.has('c-module'));
+	});
+
+	test('Reports missing dependencies', () => {
+		const graph = new DependencyGraph();
+		graph.addModule('a-module', ['kb-core']);
+		graph.addModule('b-module', ['a-module']);
+
+		const resolution = graph.resolve();
+
+		assert.deepStrictEqual(resolution.order, []);
+		assert.deepStrictEqual(resolution.missing.get('a-module'), ['kb-core']);
+		assert.ok(resolution.blocked.has('b-module'));
+	});
+
+	test('Returns transitive dependents in load order', () => {
+		const graph = new DependencyGraph();
+		graph.addModule('kb-core');
+		graph.addModule('search', ['kb-core']);
+		graph.addModule('search-ui', ['search']);
+		graph.addModule('other');
+
+		assert.deepStrictEqual(graph.getDependents('kb-core'), ['search', 'search-ui']);
+	});
+});
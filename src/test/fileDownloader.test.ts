@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+
+import { DownloadCancelledError, downloadFile } from '../core/registry/FileDownloader';
+
+suite('FileDownloader Test Suite', () => {
+	const content = Buffer.from('0123456789'.repeat(1000));
+
+	let server: http.Server;
+	let baseUrl: string;
+	let tempDir: string;
+	let requests: http.IncomingHttpHeaders[];
+	let failuresLeft: number;
+
+	suiteSetup(async () => {
+		server = http.createServer((request, response) => {
+			requests.push(request.headers);
+			if (failuresLeft > 0) {
+				failuresLeft--;
+				response.writeHead(500);
+				response.end();
+				return;
+			}
+
+			const range = /^bytes=(\d+)-$/.exec(request.headers.range ?? '');
+			if (range) {
+				const start = Number(range[1]);
+				response.writeHead(206, {
+					'Content-Range': `bytes ${start}-${content.length - 1}/${content.length}`,
+					'Content-Length': content.length - start,
+					'ETag': '"v1"'
+				});
+				response.end(content.subarray(start));
+			} else {
+				response.writeHead(200, { 'Content-Length': content.length, 'ETag': '"v1"' });
+				response.end(content);
+			}
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+	});
+
+	suiteTeardown(async () => {
+		await new Promise<void>(resolve => server.close(() => resolve()));
+	});
+
+	setup(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'modular-kb-test-'));
+		requests = [];
+		failuresLeft = 0;
+	});
+
+	teardown(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test('Streams the file to disk and reports byte progress', async () => {
+		const filePath = path.join(tempDir, 'module.zip');
+		let lastProgress: [number, number | undefined] = [0, undefined];
+
+		await downloadFile(`${baseUrl}/module.zip`, filePath, {
+			timeout: 5000,
+			retries: 0,
+			onProgress: (received, total) => lastProgress = [received, total]
+		});
+
+		assert.deepStrictEqual(fs.readFileSync(filePath), content);
+		assert.deepStrictEqual(lastProgress, [content.length, content.length]);
+		assert.ok(!fs.existsSync(`${filePath}.part`));
+	});
+
+	test('Resumes a partial download with a Range request', async () => {
+		const filePath = path.join(tempDir, 'module.zip');
+		fs.writeFileSync(`${filePath}.part`, content.subarray(0, 4000));
+		fs.writeFileSync(`${filePath}.part.validator`, '"v1"');
+
+		await downloadFile(`${baseUrl}/module.zip`, filePath, { timeout: 5000, retries: 0 });
+
+		assert.deepStrictEqual(fs.readFileSync(filePath), content);
+		assert.strictEqual(requests[0].range, 'bytes=4000-');
+		assert.strictEqual(requests[0]['if-range'], '"v1"');
+	});
+
+	test('Retries server errors', async () => {
+		const filePath = path.join(tempDir, 'module.zip');
+		failuresLeft = 2;
+
+		await downloadFile(`${baseUrl}/module.zip`, filePath, { timeout: 5000, retries: 2, retryDelay: 10 });
+
+		assert.deepStrictEqual(fs.readFileSync(filePath), content);
+		assert.strictEqual(requests.length, 3);
+	});
+
+	test('Stops when cancelled', async () => {
+		const token = {
+			isCancellationRequested: true,
+			onCancellationRequested: () => ({ dispose: () => undefined })
+		};
+
+		await assert.rejects(
+			downloadFile(`${baseUrl}/module.zip`, path.join(tempDir, 'module.zip'), { timeout: 5000, retries: 3, token }),
+			DownloadCancelledError
+		);
+		assert.strictEqual(requests.length, 0);
+	});
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as http from 'http';
+
+import { HttpClient, isNoProxyHost } from '../core/net/HttpClient';
+
+suite('HttpClient Test Suite', () => {
+	let server: http.Server;
+	let serverUrl: string;
+	let requestedUrls: string[];
+
+	// Сервер отвечает и как прокси (абсолютный URL в запросе), и как обычный сервер
+	suiteSetup(async () => {
+		server = http.createServer((request, response) => {
+			requestedUrls.push(request.url ?? '');
+			response.writeHead(200, { 'Content-Type': 'text/plain' });
+			response.end(request.headers['user-agent']);
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		serverUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+	});
+
+	suiteTeardown(async () => {
+		await new Promise<void>(resolve => server.close(() => resolve()));
+	});
+
+	setup(() => {
+		requestedUrls = [];
+	});
+
+	function get(client: HttpClient, url: string): Promise<string> {
+		return new Promise<string>((resolve, reject) => {
+			client.get(url, { timeout: 5000 }, (response) => {
+				let body = '';
+				response.on('data', (chunk) => body += chunk);
+				response.on('end', () => resolve(body));
+			}).on('error', reject);
+		});
+	}
+
+	test('Matches hosts against the no-proxy list', () => {
+		assert.ok(isNoProxyHost('example.com', '443', ['example.com']));
+		assert.ok(isNoProxyHost('registry.example.com', '443', ['.example.com']));
+		assert.ok(isNoProxyHost('registry.example.com', '443', ['*.example.com']));
+		assert.ok(isNoProxyHost('anything.local', '80', ['*']));
+		assert.ok(isNoProxyHost('localhost', '8080', ['localhost:8080']));
+		assert.ok(isNoProxyHost('[::1]', '8080', ['[::1]:8080']));
+		assert.ok(!isNoProxyHost('localhost', '8081', ['localhost:8080']));
+		assert.ok(!isNoProxyHost('notexample.com', '443', ['example.com']));
+		assert.ok(!isNoProxyHost('example.com', '443', ['', ' ']));
+	});
+
+	test('Sends requests through the proxy', async () => {
+		const client = new HttpClient({ proxy: serverUrl, userAgent: 'modular-kb-test' });
+		try {
+			assert.strictEqual(client.getProxyFor('http://modules.example.invalid/index.json'), serverUrl);
+			const body = await get(client, 'http://modules.example.invalid/index.json');
+
+			assert.strictEqual(body, 'modular-kb-test');
+			assert.deepStrictEqual(requestedUrls, ['http://modules.example.invalid/index.json']);
+		} finally {
+			client.dispose();
+		}
+	});
+
+	test('Connects directly to hosts from the no-proxy list', async () => {
+		const client = new HttpClient({ proxy: 'http://127.0.0.1:9', noProxy: ['127.0.0.1'] });
+		try {
+			assert.strictEqual(client.getProxyFor(`${serverUrl}/index.json`), undefined);
+			await get(client, `${serverUrl}/index.json`);
+
+			assert.deepStrictEqual(requestedUrls, ['/index.json']);
+		} finally {
+			client.dispose();
+		}
+	});
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { IIntegrityPolicy, verifyModuleArchive } from '../core/registry/IntegrityVerifier';
+
+suite('IntegrityVerifier Test Suite', () => {
+	const content = Buffer.from('module archive content');
+	const sha256 = crypto.createHash('sha256').update(content).digest('hex');
+	const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+	const signature = crypto.sign(null, content, privateKey).toString('base64');
+	const policy: IIntegrityPolicy = {
+		trustedKeys: [{ publisher: 'modularkb', publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString() }],
+		requireChecksum: false,
+		requireSignature: false
+	};
+
+	let archivePath: string;
+
+	suiteSetup(() => {
+		archivePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'modular-kb-test-')), 'module.zip');
+		fs.writeFileSync(archivePath, content);
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(path.dirname(archivePath), { recursive: true, force: true });
+	});
+
+	test('Accepts matching digest and trusted signature', async () => {
+		assert.strictEqual(await verifyModuleArchive(archivePath, { sha256, signature, publisher: 'modularkb' }, policy), sha256);
+	});
+
+	test('Rejects digest mismatch', async () => {
+		await assert.rejects(verifyModuleArchive(archivePath, { sha256: '0'.repeat(64) }, policy), /Контрольная сумма/);
+	});
+
+	test('Rejects signature from an untrusted key', async () => {
+		const other = crypto.generateKeyPairSync('ed25519');
+		const forged = crypto.sign(null, content, other.privateKey).toString('base64');
+		await assert.rejects(verifyModuleArchive(archivePath, { sha256, signature: forged }, policy), /Подпись/);
+	});
+
+	test('Enforces required checksum and signature', async () => {
+		await assert.rejects(verifyModuleArchive(archivePath, {}, { ...policy, requireChecksum: true }), /SHA-256/);
+		await assert.rejects(verifyModuleArchive(archivePath, { sha256 }, { ...policy, requireSignature: true }), /не подписан/);
+	});
+});
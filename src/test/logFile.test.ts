@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { formatLogMessage, isLogLevelEnabled, RotatingLogFile } from '../core/logging/LogFile';
+
+suite('LogFile Test Suite', () => {
+	let tempDir: string;
+
+	setup(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'modular-kb-test-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test('Filters messages by level', () => {
+		assert.ok(isLogLevelEnabled('info', 'error'));
+		assert.ok(isLogLevelEnabled('info', 'info'));
+		assert.ok(!isLogLevelEnabled('info', 'debug'));
+		assert.ok(isLogLevelEnabled('trace', 'trace'));
+		assert.ok(!isLogLevelEnabled('off', 'error'));
+	});
+
+	test('Formats extra arguments like console.log', () => {
+		const error = new Error('boom');
+		assert.strictEqual(formatLogMessage('plain', []), 'plain');
+		assert.strictEqual(formatLogMessage('Files:', ['a', { b: 1 }]), 'Files: a { b: 1 }');
+		assert.strictEqual(formatLogMessage('Failed:', [error]), `Failed: ${error.stack}`);
+	});
+
+	test('Rotates the file when it exceeds the size limit', () => {
+		const filePath = path.join(tempDir, 'logs', 'core.log');
+		const logFile = new RotatingLogFile(filePath, 20, 2);
+		for (const line of ['first line', 'second line', 'third line', 'fourth line']) {
+			logFile.append(line);
+		}
+
+		assert.strictEqual(fs.readFileSync(filePath, 'utf8'), 'fourth line\n');
+		assert.strictEqual(fs.readFileSync(`${filePath}.1`, 'utf8'), 'third line\n');
+		assert.strictEqual(fs.readFileSync(`${filePath}.2`, 'utf8'), 'second line\n');
+		assert.ok(!fs.existsSync(`${filePath}.3`));
+	});
+});
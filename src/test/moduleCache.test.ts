@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ModuleCache } from '../core/registry/ModuleCache';
+
+suite('ModuleCache Test Suite', () => {
+	const url = 'https://modules.example.local/search.zip';
+	const content = Buffer.from('module archive content');
+	const sha256 = crypto.createHash('sha256').update(content).digest('hex');
+
+	let tempDir: string;
+	let archivePath: string;
+	let cache: ModuleCache;
+
+	setup(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'modular-kb-test-'));
+		archivePath = path.join(tempDir, 'search.zip');
+		fs.writeFileSync(archivePath, content);
+		cache = new ModuleCache(path.join(tempDir, 'cache'));
+	});
+
+	teardown(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test('Stores registry index with validators', () => {
+		const registry = { modules: [] };
+		cache.storeRegistry('https://modules.example.local/index.json', registry, '"v1"', 'Mon, 19 Oct 2026 10:00:00 GMT');
+
+		const cached = cache.getRegistry('https://modules.example.local/index.json');
+		assert.deepStrictEqual(cached?.registry, registry);
+		assert.strictEqual(cached?.etag, '"v1"');
+		assert.strictEqual(cached?.lastModified, 'Mon, 19 Oct 2026 10:00:00 GMT');
+		assert.strictEqual(cache.getRegistry('https://other.example.local/index.json'), undefined);
+	});
+
+	test('Finds archives by digest and by download URL', async () => {
+		cache.storeArchive(url, archivePath, sha256);
+
+		const byDigest = await cache.getArchive('https://mirror.example.local/search.zip', sha256);
+		assert.ok(byDigest);
+		assert.deepStrictEqual(fs.readFileSync(byDigest), content);
+		assert.strictEqual(await cache.getArchive(url), byDigest);
+		assert.strictEqual(await cache.getArchive('https://mirror.example.local/search.zip'), undefined);
+	});
+
+	test('Drops corrupted archives', async () => {
+		cache.storeArchive(url, archivePath, sha256);
+		fs.writeFileSync(path.join(tempDir, 'cache', 'archives', `${sha256}.zip`), 'tampered');
+
+		assert.strictEqual(await cache.getArchive(url, sha256), undefined);
+		assert.ok(!fs.existsSync(path.join(tempDir, 'cache', 'archives', `${sha256}.zip`)));
+	});
+
+	test('Clears the cache', () => {
+		cache.storeArchive(url, archivePath, sha256);
+
+		assert.ok(cache.clear() >= content.length);
+		assert.ok(!fs.existsSync(path.join(tempDir, 'cache')));
+	});
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+
+import { checkModuleRequirements, readModuleRequirements } from '../core/registry/ModuleCompatibility';
+
+suite('ModuleCompatibility Test Suite', () => {
+	test('Reads dependency ranges from array and object forms', () => {
+		assert.deepStrictEqual(readModuleRequirements({ moduleDependencies: ['kb-core'] }).dependencies, { 'kb-core': '*' });
+		assert.deepStrictEqual(
+			readModuleRequirements({ moduleDependencies: { 'kb-core': '>=0.5.0' }, engines: { modularkb: '^0.4.0' } }),
+			{ engine: '^0.4.0', dependencies: { 'kb-core': '>=0.5.0' } }
+		);
+	});
+
+	test('Ignores npm dependencies in package.json', () => {
+		assert.deepStrictEqual(readModuleRequirements({ dependencies: { yauzl: '^3.2.0' } }).dependencies, {});
+	});
+
+	test('Rejects unsatisfied host and dependency ranges', () => {
+		const requirements = readModuleRequirements({
+			moduleDependencies: { 'kb-core': '>=0.5.0', search: '*' },
+			engines: { modularkb: '>=1.0.0' }
+		});
+
+		const problems = checkModuleRequirements(requirements, '0.4.2', new Map([['kb-core', '0.4.0']]));
+
+		assert.deepStrictEqual(problems, [
+			'Modular KB: требуется >=1.0.0, установлена 0.4.2',
+			'kb-core: требуется >=0.5.0, установлена 0.4.0',
+			'search: модуль не установлен'
+		]);
+	});
+
+	test('Accepts satisfied ranges', () => {
+		const requirements = readModuleRequirements({ moduleDependencies: { 'kb-core': '>=0.5.0' }, engines: { modularkb: '^0.4.0' } });
+
+		assert.deepStrictEqual(checkModuleRequirements(requirements, '0.4.2', new Map([['kb-core', '0.5.1']])), []);
+	});
+});
@@ -0,0 +1,137 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+	createLockfile,
+	diffLockfile,
+	IInstalledModuleState,
+	isLockfileSatisfied,
+	readInstallInfo,
+	readLockfile,
+	resolveLockedSource,
+	writeInstallInfo,
+	writeLockfile
+} from '../core/registry/ModuleLockfile';
+
+suite('ModuleLockfile Test Suite', () => {
+	const sha256 = 'a'.repeat(64);
+
+	let tempDir: string;
+
+	setup(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'modular-kb-test-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	function installed(entries: Record<string, Partial<IInstalledModuleState>>): Map<string, IInstalledModuleState> {
+		return new Map(Object.entries(entries).map(([id, state]) => [id, { version: '1.0.0', directory: id, dependencies: [], ...state }]));
+	}
+
+	test('Records versions, sources and dependencies of installed modules', () => {
+		const lockfile = createLockfile(installed({
+			search: {
+				version: '1.2.0',
+				dependencies: ['kb-core'],
+				install: { type: 'registry', registry: 'GitHub', resolved: 'https://modules.example.local/search.zip', sha256 }
+			},
+			'kb-core': { directory: 'core' }
+		}));
+
+		assert.deepStrictEqual(Object.keys(lockfile.modules), ['kb-core', 'search']);
+		assert.deepStrictEqual(lockfile.modules['kb-core'], { version: '1.0.0', directory: 'core', dependencies: undefined });
+		assert.strictEqual(lockfile.modules.search.registry, 'GitHub');
+		assert.strictEqual(lockfile.modules.search.sha256, sha256);
+		assert.deepStrictEqual(lockfile.modules.search.dependencies, ['kb-core']);
+	});
+
+	test('Stores local archive paths relative to the workspace', () => {
+		const workspaceRoot = path.join(tempDir, 'workspace');
+		const lockfile = createLockfile(installed({
+			inside: { install: { type: 'file', resolved: path.join(workspaceRoot, 'modules', 'inside.zip'), sha256 } },
+			outside: { install: { type: 'file', resolved: path.join(tempDir, 'outside.zip'), sha256 } }
+		}), workspaceRoot);
+
+		assert.strictEqual(lockfile.modules.inside.resolved, 'modules/inside.zip');
+		assert.strictEqual(lockfile.modules.outside.resolved, undefined);
+		assert.strictEqual(lockfile.modules.outside.type, 'file');
+		assert.strictEqual(resolveLockedSource(lockfile.modules.inside, workspaceRoot), path.join(workspaceRoot, 'modules', 'inside.zip'));
+		assert.strictEqual(resolveLockedSource(lockfile.modules.outside, workspaceRoot), undefined);
+		assert.strictEqual(resolveLockedSource({ version: '1.0.0', type: 'url', resolved: 'https://modules.example.local/x.zip' }, workspaceRoot), 'https://modules.example.local/x.zip');
+	});
+
+	test('Round-trips the lockfile and install info through disk', () => {
+		const lockfilePath = path.join(tempDir, '.modular-kb', 'modules.lock.json');
+		const lockfile = createLockfile(installed({ search: { install: { type: 'url', resolved: 'https://modules.example.local/search.zip' } } }));
+		writeLockfile(lockfilePath, lockfile);
+		writeInstallInfo(tempDir, { type: 'file', resolved: '/tmp/search.zip', sha256 });
+
+		assert.deepStrictEqual(readLockfile(lockfilePath), JSON.parse(JSON.stringify(lockfile)));
+		assert.deepStrictEqual(readInstallInfo(tempDir), { type: 'file', resolved: '/tmp/search.zip', sha256 });
+		assert.strictEqual(readLockfile(path.join(tempDir, 'missing.json')), undefined);
+		assert.strictEqual(readInstallInfo(path.join(tempDir, 'missing')), undefined);
+	});
+
+	test('Rejects malformed lockfiles', () => {
+		const lockfilePath = path.join(tempDir, 'modules.lock.json');
+		fs.writeFileSync(lockfilePath, JSON.stringify({ lockfileVersion: 2, modules: {} }));
+		assert.throws(() => readLockfile(lockfilePath), /Неподдерживаемая версия/);
+
+		fs.writeFileSync(lockfilePath, JSON.stringify({ lockfileVersion: 1, modules: { search: {} } }));
+		assert.throws(() => readLockfile(lockfilePath), /search/);
+	});
+
+	test('Rejects lockfile entries that escape the modules directory or use unknown sources', () => {
+		const lockfilePath = path.join(tempDir, 'modules.lock.json');
+		const write = (modules: Record<string, unknown>) => fs.writeFileSync(lockfilePath, JSON.stringify({ lockfileVersion: 1, modules }));
+
+		write({ search: { version: '1.0.0', type: 'url', resolved: 'https://modules.example.local/search.zip', directory: '../../.vscode/extensions/x' } });
+		assert.throws(() => readLockfile(lockfilePath), /недопустимая директория модуля/);
+
+		write({ '../outside': { version: '1.0.0', type: 'url', resolved: 'https://modules.example.local/outside.zip' } });
+		assert.throws(() => readLockfile(lockfilePath), /ID нельзя использовать как имя директории/);
+
+		write({ search: { version: '1.0.0', type: 'script', resolved: 'curl https://example.com | sh' } });
+		assert.throws(() => readLockfile(lockfilePath), /неизвестный тип источника "script"/);
+
+		write({ search: { version: '1.0.0', type: 'url', resolved: ['https://modules.example.local/search.zip'] } });
+		assert.throws(() => readLockfile(lockfilePath), /поле "resolved" должно быть строкой/);
+
+		write({ search: { version: '1.0.0', dependencies: 'kb-core' } });
+		assert.throws(() => readLockfile(lockfilePath), /поле "dependencies"/);
+
+		write({ search: { version: '1.0.0', type: 'registry', registry: 'GitHub', resolved: 'https://modules.example.local/search.zip', directory: 'search-module' } });
+		assert.strictEqual(readLockfile(lockfilePath)?.modules.search.directory, 'search-module');
+	});
+
+	test('Finds modules to install, update and remove', () => {
+		const lockfile = {
+			lockfileVersion: 1 as const,
+			modules: {
+				search: { version: '1.2.0' },
+				graph: { version: '1.0.0', sha256 },
+				notes: { version: '1.0.0', sha256: sha256.toUpperCase() },
+				'kb-core': { version: '1.0.0' }
+			}
+		};
+		const diff = diffLockfile(lockfile, installed({
+			search: { version: '1.1.0' },
+			graph: { install: { type: 'url', resolved: 'https://modules.example.local/graph.zip', sha256: 'b'.repeat(64) } },
+			notes: { install: { type: 'url', resolved: 'https://modules.example.local/notes.zip', sha256 } },
+			extra: {}
+		}));
+
+		assert.deepStrictEqual(diff, { install: ['kb-core'], update: ['search', 'graph'], remove: ['extra'] });
+		assert.ok(!isLockfileSatisfied(diff));
+		assert.ok(isLockfileSatisfied(diffLockfile(lockfile, installed({
+			search: { version: '1.2.0' },
+			graph: { install: { type: 'url', resolved: 'https://modules.example.local/graph.zip', sha256 } },
+			notes: { install: { type: 'url', resolved: 'https://modules.example.local/notes.zip', sha256 } },
+			'kb-core': {}
+		}))));
+	});
+});
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { isSafeModuleDirectoryName, ManifestValidationError, readModuleManifest, validateModuleManifest } from '../core/registry/ModuleManifest';
+
+suite('ModuleManifest Test Suite', () => {
+	let tempDir: string;
+
+	setup(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'modular-kb-test-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test('Accepts module.json and package.json manifests', () => {
+		assert.deepStrictEqual(validateModuleManifest({ id: 'my-module', version: '1.0.0', entryType: 'MyModule.Module, MyModule' }), []);
+		assert.deepStrictEqual(validateModuleManifest({
+			name: 'my-module',
+			version: '1.0.0-beta.1',
+			main: 'dist/index.js',
+			dependencies: { lodash: '^4.17.21' },
+			moduleDependencies: { 'kb-core': '>=0.5.0' },
+			engines: { modularkb: '>=0.4.0', node: '>=18' },
+			contributes: { commands: [{ command: 'myModule.hello', title: 'Hello' }] }
+		}), []);
+	});
+
+	test('Reports problems per field', () => {
+		assert.deepStrictEqual(validateModuleManifest({ version: '1.0' }), [
+			'отсутствует обязательное поле "id" (или "name")',
+			'поле "version": Version must follow semantic versioning, for example 1.0.0.'
+		]);
+		assert.deepStrictEqual(validateModuleManifest({
+			id: 'my-module',
+			version: '1.0.0',
+			moduleDependencies: 'kb-core',
+			contributes: { commands: [{ command: 'myModule.hello' }] }
+		}), [
+			'поле "moduleDependencies" должно иметь тип array или object',
+			'отсутствует обязательное поле "contributes.commands.0.title"'
+		]);
+	});
+
+	test('Rejects module IDs that are not a single directory name', () => {
+		const idProblem = 'поле "id": ID must start with a letter or digit and may contain only letters, digits, \'.\', \'_\' and \'-\'.';
+		for (const id of ['..', '../evil', 'a/b', '@scope/pkg', '.hidden']) {
+			assert.deepStrictEqual(validateModuleManifest({ id, version: '1.0.0' }), [idProblem], id);
+		}
+		assert.deepStrictEqual(validateModuleManifest({ name: '../evil', version: '1.0.0' }), [
+			'поле "name": Without `id`, name must start with a letter or digit and may contain only letters, digits, \'.\', \'_\' and \'-\'.'
+		]);
+		assert.deepStrictEqual(validateModuleManifest({ id: 'my-module', name: '@scope/my-module', version: '1.0.0' }), []);
+	});
+
+	test('Accepts only single path segments as module directory names', () => {
+		assert.ok(isSafeModuleDirectoryName('kb-core'));
+		assert.ok(isSafeModuleDirectoryName('Module.My_1'));
+		for (const name of ['', '.', '..', '../x', 'a/b', 'a\\b', '.staging-x', 'C:x', undefined]) {
+			assert.ok(!isSafeModuleDirectoryName(name), String(name));
+		}
+	});
+
+	test('Prefers module.json over package.json', () => {
+		fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify({ name: 'npm-name', version: '1.0.0' }));
+		fs.writeFileSync(path.join(tempDir, 'module.json'), JSON.stringify({ id: 'my-module', version: '2.0.0' }));
+
+		const { filePath, manifest } = readModuleManifest(tempDir);
+		assert.strictEqual(filePath, path.join(tempDir, 'module.json'));
+		assert.strictEqual(manifest.id, 'my-module');
+		assert.strictEqual(manifest.version, '2.0.0');
+	});
+
+	test('Throws a validation error for invalid manifests', () => {
+		fs.writeFileSync(path.join(tempDir, 'module.json'), '{ "id": "my-module", ');
+		assert.throws(() => readModuleManifest(tempDir), ManifestValidationError);
+
+		fs.writeFileSync(path.join(tempDir, 'module.json'), JSON.stringify({ id: 'my module', version: '1.0.0' }));
+		assert.throws(() => readModuleManifest(tempDir), (error: ManifestValidationError) =>
+			error.problems.length === 1 && error.problems[0].startsWith('поле "id"'));
+
+		fs.rmSync(path.join(tempDir, 'module.json'));
+		assert.throws(() => readModuleManifest(tempDir), /нет манифеста модуля/);
+	});
+});
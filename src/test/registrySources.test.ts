@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { getDownloadHeaders, mergeRegistries, readRegistrySources, resolveDownloadUrl } from '../core/registry/RegistrySources';
+
+function item(id: string, version: string, downloadUrl: string) {
+	return { id, version, displayName: id, description: '', author: '', dependencies: [], downloadUrl };
+}
+
+suite('RegistrySources Test Suite', () => {
+	test('Reads registry sources from settings and skips invalid entries', () => {
+		const sources = readRegistrySources([
+			{ name: 'Internal', url: 'https://modules.example.local/index.json', headers: { Authorization: 'Bearer token', 'X-Bad': 1 } },
+			{ url: '/srv/modules/index.json' },
+			{ name: 'Broken' },
+			'https://not-an-object'
+		]);
+
+		assert.deepStrictEqual(sources, [
+			{ name: 'Internal', url: 'https://modules.example.local/index.json', headers: { Authorization: 'Bearer token' } },
+			{ name: '/srv/modules/index.json', url: '/srv/modules/index.json', headers: {} }
+		]);
+	});
+
+	test('Resolves relative download URLs against the registry location', () => {
+		assert.strictEqual(
+			resolveDownloadUrl('archives/search.zip', 'https://modules.example.local/registry/index.json'),
+			'https://modules.example.local/registry/archives/search.zip'
+		);
+		assert.strictEqual(
+			resolveDownloadUrl('search.zip', path.join('/srv', 'modules', 'index.json')),
+			path.resolve('/srv', 'modules', 'search.zip')
+		);
+		assert.strictEqual(resolveDownloadUrl('https://cdn.example.com/search.zip', '/srv/modules/index.json'), 'https://cdn.example.com/search.zip');
+	});
+
+	test('Prefers entries from earlier sources and records the source', () => {
+		const internal = { name: 'Internal', url: 'https://modules.example.local/index.json' };
+		const github = { name: 'GitHub', url: 'https://raw.githubusercontent.com/org/registry/main/index.json' };
+
+		const merged = mergeRegistries([
+			{ source: internal, registry: { modules: [item('search', '2.0.0', 'search.zip')] } },
+			{ source: github, registry: { modules: [item('search', '3.0.0', 'search.zip'), item('kb-core', '1.0.0', 'kb-core.zip')] } }
+		]);
+
+		assert.deepStrictEqual(merged.modules.map(module => [module.id, module.version, module.source, module.downloadUrl]), [
+			['search', '2.0.0', 'Internal', 'https://modules.example.local/search.zip'],
+			['kb-core', '1.0.0', 'GitHub', 'https://raw.githubusercontent.com/org/registry/main/kb-core.zip']
+		]);
+	});
+
+	test('Skips modules whose ID is not a safe directory name', () => {
+		const source = { name: 'Remote', url: 'https://modules.example.local/index.json' };
+
+		const merged = mergeRegistries([{
+			source,
+			registry: {
+				modules: [
+					item('../../.vscode/extensions/x', '1.0.0', 'x.zip'),
+					item('nested/module', '1.0.0', 'nested.zip'),
+					item('..\\outside', '1.0.0', 'outside.zip'),
+					item('.backups', '1.0.0', 'backups.zip'),
+					item('search', '1.0.0', 'search.zip')
+				]
+			}
+		}]);
+
+		assert.deepStrictEqual(merged.modules.map(module => module.id), ['search']);
+	});
+
+	test('Sends registry headers only to the registry host', () => {
+		const source = { name: 'Internal', url: 'https://modules.example.local/index.json', headers: { Authorization: 'Bearer token' } };
+
+		assert.deepStrictEqual(getDownloadHeaders(source, 'https://modules.example.local/search.zip'), { Authorization: 'Bearer token' });
+		assert.deepStrictEqual(getDownloadHeaders(source, 'https://github.com/org/search.zip'), {});
+	});
+});
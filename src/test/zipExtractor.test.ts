@@ -0,0 +1,168 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+import { DEFAULT_ZIP_EXTRACTION_LIMITS, extractZipSafely, validateZipEntryName, ZipExtractionError } from '../core/registry/ZipExtractor';
+
+interface ITestZipEntry {
+	name: string;
+	data?: string | Buffer;
+	mode?: number;
+	deflate?: boolean;
+}
+
+const crcTable = Array.from({ length: 256 }, (_, index) => {
+	let value = index;
+	for (let bit = 0; bit < 8; bit++) {
+		value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+	}
+	return value >>> 0;
+});
+
+function crc32(data: Buffer): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Минимальная запись ZIP-архива, созданного в Unix: права и тип файла хранятся во внешних атрибутах
+function writeZip(zipPath: string, entries: ITestZipEntry[]): void {
+	const localParts: Buffer[] = [];
+	const centralParts: Buffer[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = Buffer.from(entry.name);
+		const data = Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data ?? '');
+		const compressed = entry.deflate ? zlib.deflateRawSync(data) : data;
+		const method = entry.deflate ? 8 : 0;
+		const mode = entry.mode ?? (entry.name.endsWith('/') ? 0o40755 : 0o100644);
+		const crc = crc32(data);
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(20, 4);
+		local.writeUInt16LE(method, 8);
+		local.writeUInt32LE(crc, 14);
+		local.writeUInt32LE(compressed.length, 18);
+		local.writeUInt32LE(data.length, 22);
+		local.writeUInt16LE(name.length, 26);
+		localParts.push(local, name, compressed);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE((3 << 8) | 20, 4);
+		central.writeUInt16LE(20, 6);
+		central.writeUInt16LE(method, 10);
+		central.writeUInt32LE(crc, 16);
+		central.writeUInt32LE(compressed.length, 20);
+		central.writeUInt32LE(data.length, 24);
+		central.writeUInt16LE(name.length, 28);
+		central.writeUInt32LE((mode << 16) >>> 0, 38);
+		central.writeUInt32LE(offset, 42);
+		centralParts.push(central, name);
+
+		offset += local.length + name.length + compressed.length;
+	}
+
+	const centralDirectory = Buffer.concat(centralParts);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(entries.length, 8);
+	end.writeUInt16LE(entries.length, 10);
+	end.writeUInt32LE(centralDirectory.length, 12);
+	end.writeUInt32LE(offset, 16);
+
+	fs.writeFileSync(zipPath, Buffer.concat([...localParts, centralDirectory, end]));
+}
+
+suite('ZipExtractor Test Suite', () => {
+	let tempDir: string;
+	let zipPath: string;
+	let extractPath: string;
+
+	setup(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'modular-kb-test-'));
+		zipPath = path.join(tempDir, 'module.zip');
+		extractPath = path.join(tempDir, 'extracted');
+	});
+
+	teardown(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test('Accepts relative entry names', () => {
+		assert.strictEqual(validateZipEntryName('package.json'), undefined);
+		assert.strictEqual(validateZipEntryName('lib/Module.My.dll'), undefined);
+		assert.strictEqual(validateZipEntryName('dist/'), undefined);
+	});
+
+	test('Rejects absolute paths', () => {
+		assert.strictEqual(validateZipEntryName('/etc/passwd'), 'абсолютный путь');
+		assert.strictEqual(validateZipEntryName('\\Windows\\win.ini'), 'абсолютный путь');
+		assert.strictEqual(validateZipEntryName('C:/Windows/win.ini'), 'абсолютный путь');
+	});
+
+	test('Rejects parent directory segments', () => {
+		assert.strictEqual(validateZipEntryName('../outside.js'), 'путь содержит ".."');
+		assert.strictEqual(validateZipEntryName('lib/../../outside.js'), 'путь содержит ".."');
+		assert.strictEqual(validateZipEntryName('lib\\..\\..\\outside.js'), 'путь содержит ".."');
+	});
+
+	test('Extracts files and keeps the executable bit', async () => {
+		writeZip(zipPath, [
+			{ name: 'bin/' },
+			{ name: 'bin/start.sh', data: '#!/bin/sh\necho started\n', mode: 0o100755 },
+			{ name: 'package.json', data: '{"name":"module"}'.repeat(20), deflate: true }
+		]);
+
+		await extractZipSafely(zipPath, extractPath);
+
+		assert.strictEqual(fs.readFileSync(path.join(extractPath, 'bin', 'start.sh'), 'utf8'), '#!/bin/sh\necho started\n');
+		assert.strictEqual(fs.readFileSync(path.join(extractPath, 'package.json'), 'utf8'), '{"name":"module"}'.repeat(20));
+		if (process.platform !== 'win32') {
+			assert.strictEqual(fs.statSync(path.join(extractPath, 'bin', 'start.sh')).mode & 0o777, 0o755);
+			assert.strictEqual(fs.statSync(path.join(extractPath, 'package.json')).mode & 0o111, 0);
+		}
+	});
+
+	test('Rejects symbolic links', async () => {
+		writeZip(zipPath, [{ name: 'link', data: '/etc/passwd', mode: 0o120777 }]);
+
+		await assert.rejects(extractZipSafely(zipPath, extractPath), (error: ZipExtractionError) =>
+			error instanceof ZipExtractionError && error.entryName === 'link' && /символические ссылки/.test(error.message));
+		assert.ok(!fs.existsSync(path.join(extractPath, 'link')));
+	});
+
+	test('Rejects archives with too many entries', async () => {
+		writeZip(zipPath, [{ name: 'a.txt', data: 'a' }, { name: 'b.txt', data: 'b' }, { name: 'c.txt', data: 'c' }]);
+
+		await assert.rejects(
+			extractZipSafely(zipPath, extractPath, { ...DEFAULT_ZIP_EXTRACTION_LIMITS, maxEntries: 2 }),
+			/Архив содержит 3 записей, допустимо не более 2/
+		);
+	});
+
+	test('Rejects archives exceeding the total uncompressed size', async () => {
+		writeZip(zipPath, [{ name: 'a.txt', data: '12345678' }, { name: 'b.txt', data: '12345678' }]);
+
+		await assert.rejects(
+			extractZipSafely(zipPath, extractPath, { ...DEFAULT_ZIP_EXTRACTION_LIMITS, maxUncompressedSize: 10 }),
+			(error: ZipExtractionError) => error.entryName === 'b.txt' && /суммарный размер/.test(error.message)
+		);
+	});
+
+	test('Rejects entries with a suspicious compression ratio', async () => {
+		writeZip(zipPath, [{ name: 'bomb.bin', data: Buffer.alloc(1024 * 1024), deflate: true }]);
+
+		await assert.rejects(
+			extractZipSafely(zipPath, extractPath),
+			(error: ZipExtractionError) => error.entryName === 'bomb.bin' && /степень сжатия/.test(error.message)
+		);
+		assert.ok(!fs.existsSync(path.join(extractPath, 'bomb.bin')));
+	});
+});